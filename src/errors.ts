@@ -0,0 +1,151 @@
+/**
+ * Broad kinds of download failures, so that you (and DownloadQueue's retry
+ * logic) don't have to interpret platform-specific error codes.
+ */
+export type DownloadQueueErrorCategory =
+  | "network"
+  | "httpClient" // HTTP 4xx
+  | "httpServer" // HTTP 5xx
+  | "diskFull"
+  | "cancelled"
+  | "integrity" // The file didn't match `expectedBytes` or `expectedHash`
+  | "unknown";
+
+/**
+ * What DownloadQueue passes to `onError` and `onGiveUp` when a download fails.
+ */
+export class DownloadQueueError extends Error {
+  category: DownloadQueueErrorCategory;
+  /**
+   * The HTTP status code, if the failure was an HTTP error response.
+   */
+  statusCode?: number;
+  /**
+   * Whether DownloadQueue will retry the download (subject to the retry
+   * policy's `maxAttempts`). Decided by `isErrorRetryable` in the queue's
+   * options.
+   */
+  retryable = true;
+  /**
+   * Whatever the background downloader originally reported.
+   */
+  nativeError: unknown;
+
+  constructor(
+    message: string,
+    category: DownloadQueueErrorCategory,
+    nativeError: unknown,
+    statusCode?: number
+  ) {
+    super(message);
+    this.name = "DownloadQueueError";
+    this.category = category;
+    this.nativeError = nativeError;
+    this.statusCode = statusCode;
+    // Babel doesn't always wire up prototypes for subclasses of builtins, so we
+    // do it explicitly to keep `instanceof` working.
+    Object.setPrototypeOf(this, DownloadQueueError.prototype);
+  }
+}
+
+// https://developer.android.com/reference/android/app/DownloadManager#ERROR_HTTP_DATA_ERROR
+const ANDROID_ERROR_HTTP_DATA_ERROR = 1004;
+const ANDROID_ERROR_INSUFFICIENT_SPACE = 1006;
+
+// On iOS, the downloader always reports an errorCode of -1. For HTTP errors,
+// the message is whatever `NSHTTPURLResponse.localizedStringForStatusCode`
+// returns, so we map the (English) messages back to status codes.
+const IOS_HTTP_STATUS_MESSAGES: { [message: string]: number } = {
+  "bad request": 400,
+  unauthorized: 401,
+  "payment required": 402,
+  forbidden: 403,
+  "not found": 404,
+  "method not allowed": 405,
+  unacceptable: 406,
+  "proxy authentication required": 407,
+  "request timed out": 408,
+  conflict: 409,
+  "no longer exists": 410,
+  "length required": 411,
+  "precondition failed": 412,
+  "request too large": 413,
+  "requested url too long": 414,
+  "unsupported media type": 415,
+  "requested range not satisfiable": 416,
+  "expectation failed": 417,
+  "too many requests": 429,
+  "client error": 400,
+  "internal server error": 500,
+  unimplemented: 501,
+  "bad gateway": 502,
+  "service unavailable": 503,
+  "gateway timed out": 504,
+  "http version not supported": 505,
+  "server error": 500,
+};
+
+/**
+ * Turns whatever the background downloader reported into a
+ * DownloadQueueError. The downloader reports `{ error, errorCode }` for failed
+ * tasks, but we also accept plain strings for failures we detect ourselves.
+ */
+export function parseDownloadError(nativeError: unknown): DownloadQueueError {
+  const { error, errorCode } =
+    typeof nativeError === "object" && nativeError !== null
+      ? (nativeError as { error?: unknown; errorCode?: unknown })
+      : { error: nativeError, errorCode: undefined };
+  const message = String(error ?? "");
+  const code = typeof errorCode === "number" ? errorCode : undefined;
+  const statusCode =
+    code !== undefined && code >= 400 && code < 600
+      ? code
+      : IOS_HTTP_STATUS_MESSAGES[message.trim().toLowerCase()];
+
+  return new DownloadQueueError(
+    message,
+    categorize(message, code, statusCode),
+    nativeError,
+    statusCode
+  );
+}
+
+function categorize(
+  message: string,
+  code: number | undefined,
+  statusCode: number | undefined
+): DownloadQueueErrorCategory {
+  if (statusCode !== undefined) {
+    return statusCode < 500 ? "httpClient" : "httpServer";
+  }
+  if (code === ANDROID_ERROR_INSUFFICIENT_SPACE) {
+    return "diskFull";
+  }
+  if (code === ANDROID_ERROR_HTTP_DATA_ERROR) {
+    return "network";
+  }
+  if (/cancel/i.test(message)) {
+    return "cancelled";
+  }
+  if (/no space|not enough space|disk.*full/i.test(message)) {
+    return "diskFull";
+  }
+  if (/offline|network|internet|timed out|connect|host/i.test(message)) {
+    return "network";
+  }
+  return "unknown";
+}
+
+/**
+ * The default for `isErrorRetryable`. Everything is retried except HTTP client
+ * errors (e.g. 404 or 410), which won't go away by asking again. The exceptions
+ * are 408 (Request Timeout) and 429 (Too Many Requests), which are explicitly
+ * temporary.
+ */
+export function defaultIsErrorRetryable(error: DownloadQueueError): boolean {
+  return (
+    error.category !== "httpClient" ||
+    error.statusCode === 408 ||
+    error.statusCode === 429
+  );
+}
@@ -0,0 +1,258 @@
+import {
+  createContext,
+  createElement,
+  ReactElement,
+  ReactNode,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import type { DownloadQueueError } from "./errors";
+import type DownloadQueue from "./index";
+import type { DownloadQueueStatus } from "./index";
+
+const DownloadQueueContext = createContext<DownloadQueue | null>(null);
+
+export interface DownloadQueueProviderProps {
+  /**
+   * The queue the hooks below should use. It should already be init()ed by the
+   * time any of them render.
+   */
+  queue: DownloadQueue;
+  children?: ReactNode;
+}
+
+/**
+ * What useDownloadStatus() returns, kept up to date as the download proceeds.
+ */
+export interface DownloadStatus {
+  /**
+   * Fraction of the file downloaded so far, between 0 and 1.
+   */
+  progress: number;
+  bytesWritten: number;
+  totalBytes: number;
+  complete: boolean;
+  /**
+   * The most recent error, cleared when the download begins again or finishes.
+   */
+  error?: DownloadQueueError;
+  /**
+   * Path to the downloaded file, once it's complete.
+   */
+  localPath?: string;
+}
+
+const INITIAL_DOWNLOAD_STATUS: DownloadStatus = {
+  progress: 0,
+  bytesWritten: 0,
+  totalBytes: 0,
+  complete: false,
+};
+
+/**
+ * Queue lookups only fail when the queue can't be used at all (e.g. it hasn't
+ * been init()ed, or it's been terminated). The hooks keep returning what they
+ * had, rather than failing the effects that asked.
+ */
+function ignoreUnusableQueue() {
+  return undefined;
+}
+
+/**
+ * Makes a DownloadQueue available to the hooks in this file, for everything
+ * rendered within it.
+ */
+export function DownloadQueueProvider({
+  queue,
+  children,
+}: DownloadQueueProviderProps): ReactElement {
+  return createElement(
+    DownloadQueueContext.Provider,
+    { value: queue },
+    children
+  );
+}
+
+/**
+ * Returns the DownloadQueue given to the nearest DownloadQueueProvider.
+ */
+export function useDownloadQueue(): DownloadQueue {
+  const queue = useContext(DownloadQueueContext);
+
+  if (!queue) {
+    throw new Error(
+      "DownloadQueue hooks must be used within a DownloadQueueProvider"
+    );
+  }
+  return queue;
+}
+
+/**
+ * Returns the live progress of a url's download. The url doesn't have to be in
+ * the queue yet; its status updates once it's added.
+ */
+export function useDownloadStatus(url: string): DownloadStatus {
+  const queue = useDownloadQueue();
+  const [status, setStatus] = useState(INITIAL_DOWNLOAD_STATUS);
+
+  useEffect(() => {
+    let cancelled = false;
+    const forUrl =
+      <A extends unknown[]>(update: (...args: A) => void) =>
+      (eventUrl: string, ...args: A) => {
+        if (eventUrl === url) {
+          update(...args);
+        }
+      };
+
+    setStatus(INITIAL_DOWNLOAD_STATUS);
+    const unsubscribe = queue.subscribe({
+      onBegin: forUrl((totalBytes: number) =>
+        setStatus(prev => ({ ...prev, totalBytes, error: undefined }))
+      ),
+      onProgress: forUrl(
+        (progress: number, bytesWritten: number, totalBytes: number) =>
+          setStatus(prev => ({ ...prev, progress, bytesWritten, totalBytes }))
+      ),
+      onDone: forUrl((localPath: string) =>
+        setStatus(prev => ({
+          ...prev,
+          progress: 1,
+          bytesWritten: prev.totalBytes,
+          complete: true,
+          error: undefined,
+          localPath,
+        }))
+      ),
+      onError: forUrl((error: DownloadQueueError) =>
+        setStatus(prev => ({ ...prev, error }))
+      ),
+      onWillRemove: (eventUrl: string) => {
+        forUrl(() => setStatus(INITIAL_DOWNLOAD_STATUS))(eventUrl);
+        return Promise.resolve();
+      },
+      // The OS purged the file, so it's as if we'd never downloaded it
+      onEvicted: forUrl(() => setStatus(INITIAL_DOWNLOAD_STATUS)),
+    });
+
+    // Files downloaded before we subscribed won't send us any events
+    queue
+      .getStatus(url)
+      .then(queueStatus => {
+        if (!cancelled && queueStatus?.complete) {
+          setStatus(prev => ({
+            ...prev,
+            progress: 1,
+            complete: true,
+            localPath: queueStatus.path,
+          }));
+        }
+      })
+      .catch(ignoreUnusableQueue);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [queue, url]);
+
+  return status;
+}
+
+/**
+ * Returns the local path of a url's file once it's downloaded, or else the
+ * url itself, just like getAvailableUrl(). Switches back to the url as soon as
+ * the url's about to be removed from the queue, or its file's been purged.
+ */
+export function useAvailableUrl(url: string): string {
+  const queue = useDownloadQueue();
+  const [availableUrl, setAvailableUrl] = useState(url);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      queue
+        .getAvailableUrl(url)
+        .then(result => {
+          if (!cancelled) {
+            setAvailableUrl(result);
+          }
+        })
+        .catch(ignoreUnusableQueue);
+    };
+
+    setAvailableUrl(url);
+    refresh();
+    const unsubscribe = queue.subscribe({
+      onDone: (eventUrl: string) => {
+        if (eventUrl === url) {
+          refresh();
+        }
+      },
+      onWillRemove: (eventUrl: string) => {
+        if (eventUrl === url) {
+          setAvailableUrl(url);
+        }
+        return Promise.resolve();
+      },
+      onEvicted: (eventUrl: string) => {
+        if (eventUrl === url) {
+          setAvailableUrl(url);
+        }
+      },
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [queue, url]);
+
+  return availableUrl;
+}
+
+/**
+ * Returns the status of every url in the queue, like getQueueStatus(), updated
+ * whenever urls are added, removed, start, finish, fail or are purged.
+ */
+export function useQueueStatus(): DownloadQueueStatus[] {
+  const queue = useDownloadQueue();
+  const [statuses, setStatuses] = useState<DownloadQueueStatus[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let latestRequest = 0;
+    const refresh = () => {
+      const request = ++latestRequest;
+
+      queue
+        .getQueueStatus()
+        .then(result => {
+          // Only the newest request's results are current
+          if (!cancelled && request === latestRequest) {
+            setStatuses(result);
+          }
+        })
+        .catch(ignoreUnusableQueue);
+    };
+
+    refresh();
+    const unsubscribe = queue.subscribe({
+      onBegin: refresh,
+      onDone: refresh,
+      onError: refresh,
+      onGiveUp: refresh,
+      onInsufficientStorage: refresh,
+      onQueueChange: refresh,
+      onEvicted: refresh,
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [queue]);
+
+  return statuses;
+}
@@ -5,11 +5,28 @@ import {
   DownloadTask,
   ensureDownloadsAreRunning,
 } from "@kesha-antonov/react-native-background-downloader";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import KeyValueFileSystem from "key-value-file-system";
-import { Platform } from "react-native";
+import { AppState, NativeEventSubscription, Platform } from "react-native";
 import RNFS from "react-native-fs";
 import uuid from "react-uuid";
+import {
+  defaultIsErrorRetryable,
+  DownloadQueueError,
+  parseDownloadError,
+} from "./errors";
+import { AsyncStorageStore, DownloadQueueStore } from "./stores";
+
+export { defaultIsErrorRetryable, DownloadQueueError } from "./errors";
+export type { DownloadQueueErrorCategory } from "./errors";
+export {
+  DownloadQueueProvider,
+  useAvailableUrl,
+  useDownloadQueue,
+  useDownloadStatus,
+  useQueueStatus,
+} from "./hooks";
+export type { DownloadQueueProviderProps, DownloadStatus } from "./hooks";
+export { AsyncStorageStore, MemoryStore } from "./stores";
+export type { DownloadQueueStore, DownloadQueueStoreEntry } from "./stores";
 
 interface Spec {
   id: string;
@@ -20,16 +37,113 @@ interface Spec {
    * launch. If negative, the absolute value is the time it should be deleted.
    */
   createTime: number;
-  // `finished` is true iff the download completed (via `done()`). Files can
-  // exist at path even during the middle of a download, so you need a separate
-  // flag to know you're done. Finally, don't always count on this to tell you
-  // that the file still exists on disk; there are times, at least in the
-  // simulator, when files on the virtual disk get flushed (e.g. on new build
-  // installs).
+  // `finished` is true iff the download completed (via `done()`). Downloads
+  // are written to a ".partial" sibling of path and only moved to path once
+  // they're done, but specs persisted by older versions of this library may
+  // have downloaded straight to path, so you still need this flag to know
+  // you're done. Finally, don't always count on this to tell you that the file
+  // still exists on disk; there are times, at least in the simulator, when
+  // files on the virtual disk get flushed (e.g. on new build installs).
   finished: boolean;
+  /**
+   * Higher priorities get download slots first. Specs persisted by older
+   * versions of this library won't have this, so it's defaulted upon load.
+   */
+  priority: number;
+  /**
+   * How many times in a row the download has failed. Reset upon success or
+   * when the client explicitly retries. Defaulted upon load, like `priority`.
+   */
+  failedAttempts: number;
+  // `gaveUp` is true iff we've hit `maxAttempts` in the retry policy, at which
+  // point we stop retrying until the client calls `retryUrl()`.
+  gaveUp: boolean;
+  // What the finished file should look like, if the client told us. Checked
+  // before we consider the download finished.
+  expectedBytes?: number;
+  expectedHash?: string;
+  hashAlgorithm?: DownloadQueueHashAlgorithm;
+  // Sent with every download request, along with any from `getHeaders`.
+  headers?: DownloadQueueHeaders;
+  // Pinned specs are never evicted to stay under `maxStorageBytes`. Defaulted
+  // upon load, like `priority`.
+  pinned: boolean;
+  // Overrides the queue's `activeNetworkTypes` for this url, if given.
+  allowedNetworkTypes?: string[];
+  // The largest this url's download can be to proceed over cellular, if given.
+  maxCellularBytes?: number;
+  // True iff the client paused this url with pauseUrl(). Paused specs are
+  // never started, and their tasks stay paused until resumeUrl(). Defaulted
+  // upon load, like `priority`.
+  paused: boolean;
+  // Size of the finished file on disk, if we've looked.
+  sizeBytes?: number;
+  // When the client last got the local path from getAvailableUrl(), or when
+  // the download finished, whichever's later. Used to pick files to evict.
+  lastAccessTime?: number;
+  // The size the downloader reported when the download last began. Lets us
+  // check for free space before retrying.
+  totalBytes?: number;
+  // How much the downloader last reported having downloaded. Kept in memory
+  // for getStatus(), so it's only as fresh on disk as the last spec write.
+  bytesDownloaded?: number;
+  // When the download last finished, in timestamp millis.
+  finishTime?: number;
+  // Whatever the client wants to keep with the url. Opaque to us.
+  metadata?: DownloadQueueMetadata;
+  // The name of the url's file within the domain's directory, if the client
+  // chose one. Otherwise, the file's named after `id`.
+  filename?: string;
+  // Where the file lives. Undefined (for specs persisted by older versions of
+  // this library) means "persistent".
+  storageClass?: DownloadQueueStorageClass;
+  // What the server said about the file when it was last downloaded or
+  // revalidated, so we can ask it whether the file's changed since.
+  etag?: string;
+  lastModified?: string;
+  contentLength?: number;
+  // When we last asked the server whether the file changed, in timestamp
+  // millis. Before we first ask, `finishTime` stands in for it.
+  revalidateTime?: number;
+  // What a probe() said about the url before it was downloaded, along with the
+  // validators above. `contentType` also gives urls without an extension one.
+  contentType?: string;
+  finalUrl?: string;
 }
 
-const ERROR_RETRY_DELAY_MS = 60 * 1000;
+const STORAGE_RECHECK_INTERVAL_MS = 60 * 1000;
+const THROUGHPUT_WINDOW_MS = 30 * 1000;
+const PARTIAL_SUFFIX = ".partial";
+const UPDATE_SUFFIX = ".update"; // Where revalidate() downloads new versions
+// Extensions for the content types we're likely to download, for urls that
+// don't have one of their own.
+const MIME_TYPE_EXTENSIONS: { [mimeType: string]: string } = {
+  "application/json": "json",
+  "application/pdf": "pdf",
+  "application/zip": "zip",
+  "audio/aac": "aac",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/ogg": "ogg",
+  "audio/wav": "wav",
+  "image/gif": "gif",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "text/html": "html",
+  "text/plain": "txt",
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/webm": "webm",
+};
+
+const DEFAULT_RETRY_POLICY: Required<DownloadQueueRetryPolicy> = {
+  initialDelayMs: 60 * 1000,
+  multiplier: 1,
+  jitter: 0,
+  maxDelayMs: Infinity,
+  maxAttempts: Infinity,
+};
 
 /**
  * Derived directly from NetInfoState, but we don't want to force you to use
@@ -41,6 +155,11 @@ export interface DownloadQueueNetInfoState {
    * NetInfo's isConnected. They insist on accepting the null.
    */
   isConnected: boolean | null;
+  /**
+   * NetInfo's isInternetReachable, which is null until NetInfo knows. Only
+   * used with `requireInternetReachable`.
+   */
+  isInternetReachable?: boolean | null;
   /**
    * This should ideally be "unknown" | "none" | "wifi" | "cellular" |
    * "bluetooth" | "ethernet" | "wimax" | "vpn" | "other" | "mixed", to match
@@ -50,6 +169,21 @@ export interface DownloadQueueNetInfoState {
    * though, if you want reasonable behavior from this library.
    */
   type: string;
+  /**
+   * The subset of NetInfo's details that we use, which is null when offline.
+   */
+  details?: {
+    /**
+     * Whether the connection is metered. Only used with
+     * `pauseOnExpensiveConnections`.
+     */
+    isConnectionExpensive?: boolean;
+    /**
+     * For cellular connections, "2g" | "3g" | "4g" | "5g", or null if unknown.
+     * Only used with `allowedCellularGenerations`.
+     */
+    cellularGeneration?: string | null;
+  } | null;
 }
 
 export type DownloadQueueNetInfoUnsubscribe = () => void;
@@ -62,29 +196,574 @@ export type DownloadQueueAddEventListener = (
   listener: (state: DownloadQueueNetInfoState) => void
 ) => DownloadQueueNetInfoUnsubscribe;
 
+/**
+ * Where a url is in its life cycle. Urls move between states like so:
+ *
+ * - "queued" → "downloading" once there's a download slot for it (see
+ *   `maxConcurrentDownloads`), or → "waitingForSpace" if the device doesn't
+ *   have room for it (see `storageReserveBytes`).
+ * - "waitingForSpace" → "downloading" once there's room.
+ * - "downloading" → "complete" when the file's downloaded (and verified), or
+ *   → "waitingForRetry" when it fails, or → "failed" when it fails for good
+ *   (see `retryPolicy` and `isErrorRetryable`).
+ * - "waitingForRetry" → "queued" when it's time to retry.
+ * - "failed" → "queued" when you call retryUrl().
+ * - "complete" → "queued" if the file goes missing or, with `verifyOnInit`,
+ *   no longer matches what was expected.
+ * - Anything but "complete", "failed" and "lazyDeleted" → "paused" while the
+ *   queue is paused (by pauseAll() or being offline), the url is paused (by
+ *   pauseUrl()) or the network doesn't suit it (see `activeNetworkTypes`,
+ *   `allowedNetworkTypes` and `maxCellularBytes`), and back again after.
+ * - Anything → "lazyDeleted" when removed with a future `deleteTime`, and
+ *   back to "queued" (or "complete") if it's re-added before then.
+ */
+export type DownloadQueueState =
+  | "queued"
+  | "waitingForSpace"
+  | "downloading"
+  | "paused"
+  | "waitingForRetry"
+  | "failed"
+  | "complete"
+  | "lazyDeleted";
+
 export interface DownloadQueueStatus {
   url: string;
   path: string; // Path to the file on disk
   complete: boolean;
+  state: DownloadQueueState;
+  /**
+   * How much of the file has been downloaded so far, as of the downloader's
+   * latest progress report.
+   */
+  bytesDownloaded: number;
+  /**
+   * The file's full size, or 0 if the download hasn't begun yet.
+   */
+  bytesTotal: number;
+  /**
+   * The url's most recent download error since the queue was init()ed,
+   * cleared when the download succeeds.
+   */
+  lastError?: DownloadQueueError;
+  /**
+   * How many times in a row the download has failed (and so been retried).
+   * Reset when it succeeds, or when you call retryUrl() or re-add the url.
+   */
+  retryCount: number;
+  /**
+   * When the url was added, in timestamp millis. Undefined if "lazyDeleted".
+   */
+  createTime?: number;
+  /**
+   * When a "lazyDeleted" url's file will be deleted, in timestamp millis.
+   */
+  deleteTime?: number;
+  /**
+   * When the download finished, in timestamp millis, if it's complete.
+   */
+  finishTime?: number;
+  priority: number;
+  /**
+   * Zero-based place in line among urls waiting for a download slot (see
+   * `maxConcurrentDownloads`). Undefined if the url isn't waiting, e.g. because
+   * it's downloading or already complete.
+   */
+  position?: number;
+  /**
+   * True if the download failed permanently (i.e. it hit `maxAttempts` in the
+   * retry policy) and won't be retried until you call `retryUrl()`.
+   */
+  failed: boolean;
+  /**
+   * True if the url is never evicted to stay under `maxStorageBytes`.
+   */
+  pinned: boolean;
+  /**
+   * True if you paused the url with pauseUrl(). It stays paused, even across
+   * launches, until you call resumeUrl().
+   */
+  paused: boolean;
+  /**
+   * True if the download is being held until there's enough free space on the
+   * device (see `storageReserveBytes`).
+   */
+  waitingForSpace: boolean;
+  /**
+   * Whatever you attached to the url with addUrl() or updateMetadata().
+   */
+  metadata?: DownloadQueueMetadata;
+}
+
+export interface DownloadQueueStatusOptions {
+  /**
+   * Whether to include lazy-deleted urls (in the "lazyDeleted" state), which
+   * are left out by default. Defaults to false.
+   */
+  includeLazyDeleted?: boolean;
+}
+
+/**
+ * How far along the queue is as a whole, from getAggregateProgress() or the
+ * `onQueueProgress` handler. Urls that failed permanently aren't counted, since
+ * they won't be downloaded.
+ */
+export interface DownloadQueueAggregateProgress {
+  /**
+   * Bytes downloaded so far, including the files of finished urls.
+   */
+  bytesDownloaded: number;
+  /**
+   * Bytes to download in all. Urls whose size isn't known yet (from the server
+   * or `expectedBytes`) count as 0, so this can grow as downloads begin.
+   */
+  bytesTotal: number;
+  /**
+   * `bytesDownloaded / bytesTotal`, between 0 and 1. It's 1 if there's nothing
+   * left to download.
+   */
+  fraction: number;
+  completeCount: number;
+  /**
+   * How many urls are still to be downloaded, including paused ones.
+   */
+  remainingCount: number;
+  /**
+   * Download speed across all urls, averaged over the last 30 seconds.
+   */
+  bytesPerSecond: number;
+  /**
+   * Estimated time until everything is downloaded, in millis, at the current
+   * `bytesPerSecond`. Undefined if nothing's being downloaded right now.
+   */
+  etaMs?: number;
+}
+
+/**
+ * Status fields that query() can sort by.
+ */
+export type DownloadQueueSortKey =
+  | "createTime"
+  | "finishTime"
+  | "priority"
+  | "bytesTotal"
+  | "url";
+
+/**
+ * What to pass to DownloadQueue.query(). Every filter you leave out matches
+ * everything.
+ */
+export interface DownloadQueueQuery extends DownloadQueueStatusOptions {
+  /**
+   * Only urls in this state, or in any of these states.
+   */
+  state?: DownloadQueueState | DownloadQueueState[];
+  /**
+   * Only urls whose metadata has every one of these keys, with the same value
+   * (compared with ===, so nested objects and arrays won't match).
+   */
+  metadataMatch?: DownloadQueueMetadata;
+  /**
+   * Only urls added strictly before this timestamp, in millis. Lazy-deleted
+   * urls never match, since they have no `createTime`.
+   */
+  createdBefore?: number;
+  /**
+   * Only urls added strictly after this timestamp, in millis. Lazy-deleted
+   * urls never match, like with `createdBefore`.
+   */
+  createdAfter?: number;
+  /**
+   * The field to sort by. Urls missing the field (e.g. `finishTime` for
+   * incomplete ones) come last. Defaults to the order urls were added in.
+   */
+  sortBy?: DownloadQueueSortKey;
+  /**
+   * Defaults to "asc".
+   */
+  sortOrder?: "asc" | "desc";
+  /**
+   * The most statuses to return, after skipping `offset` of them.
+   */
+  limit?: number;
+  /**
+   * How many of the matching, sorted statuses to skip. Defaults to 0.
+   */
+  offset?: number;
+  /**
+   * Whether to check that finished urls' files still exist on disk, as
+   * getStatus() does. Checking costs a filesystem call per url, so pass false
+   * if you'd rather go by our records alone. Defaults to true.
+   */
+  verifyFiles?: boolean;
+}
+
+export type DownloadQueueHashAlgorithm = "md5" | "sha256";
+
+/**
+ * Where a url's file is kept. "persistent" files live under `baseDirectory`
+ * and stay until they're removed from the queue. "cache" files live under
+ * `cacheDirectory`, which isn't backed up and which the OS may purge when the
+ * device runs low on space.
+ */
+export type DownloadQueueStorageClass = "persistent" | "cache";
+
+/**
+ * What to do with urls whose "cache" files the OS purged: download them again,
+ * or remove them from the queue.
+ */
+export type DownloadQueueEvictionPolicy = "redownload" | "remove";
+
+export type DownloadQueueHeaders = { [name: string]: string };
+
+/**
+ * Anything you want to keep with a url, e.g. which episode or owner its file
+ * belongs to. It's persisted as JSON, so it must be JSON-serializable.
+ */
+export type DownloadQueueMetadata = { [key: string]: unknown };
+
+/**
+ * A url along with its own metadata, for addUrls() and setQueue().
+ */
+export interface DownloadQueueEntry {
+  url: string;
+  /**
+   * Takes the place of any `metadata` in the options passed alongside.
+   */
+  metadata?: DownloadQueueMetadata;
+  /**
+   * Takes the place of any `filename` in the options passed alongside.
+   */
+  filename?: string;
+}
+
+/**
+ * What `pathForSpec` is given to name a url's file.
+ */
+export interface DownloadQueuePathSpec {
+  /**
+   * A unique id for the url, which is what files are named after by default.
+   */
+  id: string;
+  url: string;
+  /**
+   * The file extension found by `urlToPath`, without the dot, or else the one
+   * for the url's content type if it was probed, or "" if there isn't one.
+   */
+  extension: string;
+  metadata?: DownloadQueueMetadata;
+}
+
+/**
+ * Optional settings to pass to DownloadQueue.addUrl()
+ */
+export interface DownloadQueueAddUrlOptions {
+  /**
+   * Urls with higher priorities are downloaded before those with lower ones.
+   * If the url is already in the queue, its priority is updated. Defaults to 0.
+   */
+  priority?: number;
+  /**
+   * The size, in bytes, the downloaded file must have. If it doesn't, the file
+   * is deleted and the download fails with an "integrity" error (and is
+   * retried like any other failure). Only used when the url is first added.
+   */
+  expectedBytes?: number;
+  /**
+   * The hex digest the downloaded file must have, computed with
+   * `hashAlgorithm`. Mismatches are handled like those of `expectedBytes`.
+   * Only used when the url is first added.
+   */
+  expectedHash?: string;
+  /**
+   * Which algorithm `expectedHash` was computed with. Defaults to "sha256".
+   */
+  hashAlgorithm?: DownloadQueueHashAlgorithm;
+  /**
+   * HTTP headers to send when downloading the url. These are persisted, so
+   * don't put short-lived credentials here; use `getHeaders` in the queue's
+   * options instead. Only used when the url is first added.
+   */
+  headers?: DownloadQueueHeaders;
+  /**
+   * Pinned urls are never evicted to stay under `maxStorageBytes`. Only used
+   * when the url is first added; use `setPinned()` to change it later.
+   * Defaults to false.
+   */
+  pinned?: boolean;
+  /**
+   * The NetInfoStateType values on which this url may download, overriding the
+   * queue's `activeNetworkTypes` (e.g. ["wifi"] for a large video, or [] for a
+   * thumbnail that should download on any network). Requires NetInfo to have
+   * been passed to init(). Only used when the url is first added.
+   */
+  allowedNetworkTypes?: string[];
+  /**
+   * The largest, in bytes, the url's file can be to download over cellular.
+   * Bigger downloads wait for another type of network. The size comes from
+   * the server once the download begins, or else from `expectedBytes` or a
+   * probe().
+   * Requires NetInfo to have been passed to init(). Only used when the url is
+   * first added.
+   */
+  maxCellularBytes?: number;
+  /**
+   * Anything you want to keep with the url (see `DownloadQueueMetadata`). It's
+   * returned by getStatus() and passed to every handler. If the url is already
+   * in the queue, its metadata is replaced.
+   */
+  metadata?: DownloadQueueMetadata;
+  /**
+   * What to name the url's file, within the queue's directory, instead of a
+   * generated name. It can't contain slashes or end in ".partial" or ".update"
+   * (which the queue uses for downloads in progress), and no two urls can share
+   * one. Takes the place of `pathForSpec` in the queue's options. Only used when
+   * the url is first added.
+   */
+  filename?: string;
+  /**
+   * Whether to keep the url's file in `baseDirectory` ("persistent") or in
+   * `cacheDirectory` ("cache"), where it doesn't count against the app's
+   * backups and the OS may purge it. Only used when the url is first added.
+   * Defaults to "persistent".
+   */
+  storageClass?: DownloadQueueStorageClass;
+  /**
+   * Whether to probe() the url before adding it, so that its size is known
+   * (e.g. by getAggregateProgress()) before it starts downloading, and so that
+   * its file gets an extension from its content type if its url has none. If
+   * the probe fails, the url is added all the same. Only used when the url is
+   * first added. Defaults to false.
+   */
+  probe?: boolean;
+}
+
+/**
+ * What probe() learned about a url from the server.
+ */
+export interface DownloadQueueProbeResult {
+  url: string;
+  /**
+   * Where the url ended up after any redirects.
+   */
+  finalUrl: string;
+  contentLength?: number;
+  contentType?: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * What addUrls(), removeUrls() and setQueue() changed.
+ */
+export interface DownloadQueueChangeSummary {
+  /**
+   * Urls that weren't in the queue before, including lazy-deleted ones that
+   * were revived.
+   */
+  added: string[];
+  /**
+   * Urls taken out of the queue (or lazy-deleted).
+   */
+  removed: string[];
+  /**
+   * Urls that were asked for but were already in the queue (for adds), or
+   * weren't in it to begin with (for removes). For setQueue(), these are the
+   * urls that stayed.
+   */
+  unchanged: string[];
 }
 
+/**
+ * Every handler that's about a url also gets the url's metadata (see
+ * `DownloadQueueAddUrlOptions.metadata`), if it has any, as its last argument.
+ */
 export interface DownloadQueueHandlers {
-  onBegin?: (url: string, totalBytes: number) => void;
+  onBegin?: (
+    url: string,
+    totalBytes: number,
+    metadata?: DownloadQueueMetadata
+  ) => void;
   onProgress?: (
     url: string,
     fractionWritten: number,
     bytesWritten: number,
-    totalBytes: number
+    totalBytes: number,
+    metadata?: DownloadQueueMetadata
+  ) => void;
+  /**
+   * Called with the progress of every url that's made some since the last
+   * call, all at once, instead of separately like `onProgress`. Handy for
+   * updating a list of many downloads with a single render.
+   */
+  onProgressBatch?: (updates: DownloadQueueProgressUpdate[]) => void;
+  onDone?: (
+    url: string,
+    localPath: string,
+    metadata?: DownloadQueueMetadata
+  ) => void;
+  /**
+   * This is async because `removeUrl` (and also `removeUrls` and `setQueue`,
+   * which call it for all their urls in parallel) will block until you return
+   * from this, giving you the opportunity in your app to remove any
+   * dependencies on the local file before it's deleted.
+   */
+  onWillRemove?: (
+    url: string,
+    metadata?: DownloadQueueMetadata
+  ) => Promise<void>;
+  /**
+   * `error.retryable` tells you whether DownloadQueue will try again. HTTP
+   * client errors like 404, for instance, aren't retried by default.
+   */
+  onError?: (
+    url: string,
+    error: DownloadQueueError,
+    metadata?: DownloadQueueMetadata
+  ) => void;
+  /**
+   * Called when a download has failed `maxAttempts` times (see
+   * `DownloadQueueRetryPolicy`), after `onError`. The url won't be retried
+   * again until you call `retryUrl()`.
+   */
+  onGiveUp?: (
+    url: string,
+    error: DownloadQueueError,
+    metadata?: DownloadQueueMetadata
+  ) => void;
+  /**
+   * Called when a download is held back because the device doesn't have
+   * `requiredBytes` free (see `storageReserveBytes`). It'll start on its own
+   * once there's room. Not called again for the same url until it's started.
+   */
+  onInsufficientStorage?: (
+    url: string,
+    requiredBytes: number,
+    freeBytes: number,
+    metadata?: DownloadQueueMetadata
+  ) => void;
+  /**
+   * Called after urls are added to or removed from the queue, or have their
+   * priority, pinning or metadata changed. Handy for keeping a list of the
+   * queue's contents (e.g. from getQueueStatus()) up to date.
+   */
+  onQueueChange?: () => void;
+  /**
+   * Called with the progress of the queue as a whole (see
+   * getAggregateProgress()) whenever any url makes progress or finishes.
+   */
+  onQueueProgress?: (progress: DownloadQueueAggregateProgress) => void;
+  /**
+   * Called when the last url left to download finishes, fails for good or is
+   * removed, so nothing remains to download.
+   */
+  onQueueDrained?: () => void;
+  /**
+   * Called when the OS has purged a "cache" url's finished file. Depending on
+   * `evictionPolicy`, the url is then downloaded again or removed.
+   */
+  onEvicted?: (url: string, metadata?: DownloadQueueMetadata) => void;
+  /**
+   * Called when revalidation (see `revalidate()`) has replaced a url's file
+   * with a newer version from the server. `localPath` is where it was before.
+   */
+  onUpdated?: (
+    url: string,
+    localPath: string,
+    metadata?: DownloadQueueMetadata
   ) => void;
-  onDone?: (url: string, localPath: string) => void;
+}
+
+/**
+ * A url's download progress, as passed to "progress" listeners and
+ * `onProgressBatch`.
+ */
+export interface DownloadQueueProgressUpdate {
+  url: string;
+  fractionWritten: number;
+  bytesWritten: number;
+  totalBytes: number;
+  metadata?: DownloadQueueMetadata;
+}
+
+/**
+ * The details each event passes to listeners added with `on()`. They match
+ * the arguments of the `DownloadQueueHandlers` callback of the same name (e.g.
+ * "begin" is `onBegin`), so see those for when each event happens. Events
+ * about a url carry its `metadata`, if it has any.
+ */
+export interface DownloadQueueEvents {
+  begin: { url: string; totalBytes: number; metadata?: DownloadQueueMetadata };
+  progress: DownloadQueueProgressUpdate;
+  progressBatch: { updates: DownloadQueueProgressUpdate[] };
+  done: { url: string; localPath: string; metadata?: DownloadQueueMetadata };
+  willRemove: { url: string; metadata?: DownloadQueueMetadata };
+  error: {
+    url: string;
+    error: DownloadQueueError;
+    metadata?: DownloadQueueMetadata;
+  };
+  giveUp: {
+    url: string;
+    error: DownloadQueueError;
+    metadata?: DownloadQueueMetadata;
+  };
+  insufficientStorage: {
+    url: string;
+    requiredBytes: number;
+    freeBytes: number;
+    metadata?: DownloadQueueMetadata;
+  };
+  queueChange: Record<string, never>;
+  queueProgress: DownloadQueueAggregateProgress;
+  queueDrained: Record<string, never>;
+  evicted: { url: string; metadata?: DownloadQueueMetadata };
+  updated: { url: string; localPath: string; metadata?: DownloadQueueMetadata };
+}
+
+export type DownloadQueueEventName = keyof DownloadQueueEvents;
+
+/**
+ * Only "willRemove" listeners' promises are waited on.
+ */
+export type DownloadQueueListener<E extends DownloadQueueEventName> = (
+  payload: DownloadQueueEvents[E]
+) => void | Promise<void>;
+
+type DownloadQueueListeners = {
+  [E in DownloadQueueEventName]: DownloadQueueListener<E>[];
+};
+
+/**
+ * How DownloadQueue retries failed downloads. After the nth consecutive
+ * failure of a url, it waits `initialDelayMs * multiplier^(n-1)` (capped at
+ * `maxDelayMs`, then randomized by `jitter`) before trying again.
+ */
+export interface DownloadQueueRetryPolicy {
+  /**
+   * How long to wait before the first retry. Defaults to one minute.
+   */
+  initialDelayMs?: number;
+  /**
+   * What each successive delay is multiplied by. Defaults to 1 (i.e. always
+   * wait `initialDelayMs`).
+   */
+  multiplier?: number;
+  /**
+   * Fraction between 0 and 1 by which each delay is randomly lengthened or
+   * shortened, so that many failed downloads don't all retry at once. 0.2 means
+   * delays vary by up to 20% either way. Defaults to 0.
+   */
+  jitter?: number;
+  /**
+   * The longest to ever wait between retries. Defaults to no limit.
+   */
+  maxDelayMs?: number;
   /**
-   * This is async because `removeUrl` (and also `setQueue`, when it needs to
-   * remove some urls) will block until you return from this, giving you the
-   * opportunity in your app to remove any dependencies on the local file before
-   * it's deleted.
+   * How many failed attempts in a row (including the first download) before
+   * giving up on a url. Defaults to no limit, i.e. retrying forever.
    */
-  onWillRemove?: (url: string) => Promise<void>;
-  onError?: (url: string, error: any) => void;
+  maxAttempts?: number;
 }
 
 /**
@@ -120,14 +799,77 @@ export interface DownloadQueueOptions {
    * practice is to pass ["wifi", "ethernet"] if you want to help users avoid
    * cell data charges. As of @react-native-community/netinfo@9.3.7, valid
    * values are "unknown" | "none" | "wifi" | "cellular" | "bluetooth" |
-   * "ethernet" | "wimax" | "vpn" | "other" | "mixed".
+   * "ethernet" | "wimax" | "vpn" | "other" | "mixed". Urls can override this
+   * with `allowedNetworkTypes` in addUrl().
    */
   activeNetworkTypes?: string[];
+  /**
+   * Whether to pause downloads while NetInfo reports the connection as
+   * expensive (i.e. metered), whatever its type. Requires
+   * `netInfoAddEventListener`. Defaults to false.
+   */
+  pauseOnExpensiveConnections?: boolean;
+  /**
+   * Whether to pause downloads until NetInfo reports the internet as
+   * reachable, rather than just being connected to a network (e.g. a wifi
+   * network behind a captive portal). Requires `netInfoAddEventListener`.
+   * Defaults to false.
+   */
+  requireInternetReachable?: boolean;
+  /**
+   * The cellular generations ("2g" | "3g" | "4g" | "5g") on which downloads
+   * are allowed, e.g. ["4g", "5g"]. Cellular connections of unknown generation
+   * are allowed. Requires `netInfoAddEventListener`. If undefined or [], all
+   * generations are allowed.
+   */
+  allowedCellularGenerations?: string[];
+  /**
+   * Your own rule for whether a url may download on the current network, on
+   * top of the ones above (e.g. to only download big files while charging).
+   * Called whenever the network changes, and whenever a download begins.
+   * Requires `netInfoAddEventListener`.
+   */
+  isNetworkAllowed?: (state: DownloadQueueNetInfoState, url: string) => boolean;
   /**
    * Whether to start the queue in an active state where downloads will be
    * started. If false, no downloads will begin until you call resumeAll().
    */
   startActive?: boolean;
+  /**
+   * The directory under which each domain's files are downloaded, e.g.
+   * `RNFS.CachesDirectoryPath` or an app group container. Files land in a
+   * subdirectory named after the domain, which the queue owns: anything in it
+   * that isn't a url's file is deleted during init(). Defaults to
+   * `${RNFS.DocumentDirectoryPath}/DownloadQueue`.
+   */
+  baseDirectory?: string;
+  /**
+   * The directory under which "cache" urls' files are downloaded, again in a
+   * subdirectory named after the domain. Defaults to
+   * `${RNFS.CachesDirectoryPath}/DownloadQueue`.
+   */
+  cacheDirectory?: string;
+  /**
+   * What to do with "cache" urls whose finished files the OS purged. These are
+   * noticed during init() and whenever the app comes to the foreground.
+   * Defaults to "redownload".
+   */
+  evictionPolicy?: DownloadQueueEvictionPolicy;
+  /**
+   * How long after a url's file finished downloading, or was last revalidated,
+   * to ask the server whether it's changed (see `revalidate()`). Checked
+   * during init() and whenever the app comes to the foreground. By default,
+   * files are only revalidated when you call `revalidate()`.
+   */
+  revalidateAfterMs?: number;
+  /**
+   * Returns what to name a url's file, within the queue's directory, when the
+   * url is first added without a `filename`. Like `filename`, it can't contain
+   * slashes or end in ".partial" or ".update", and no two urls can share one.
+   * By default, files are named after
+   * the url's `id`, plus any extension found by `urlToPath`.
+   */
+  pathForSpec?: (spec: DownloadQueuePathSpec) => string;
   /**
    * Callback used to get a pathname from a URL. By default, files are saved
    * without any particular extension. But if you need the server extension to
@@ -146,33 +888,149 @@ export interface DownloadQueueOptions {
    * https://www.npmjs.com/package/react-native-url-polyfill
    */
   urlToPath?: (url: string) => string;
-}
-
-/**
- * A queue for downloading files in the background. You should call init()
- * before using any other methods. A suggested practice is to have one queue
- * per userId, using that userId as the queue's `domain`, if you want downloads
- * several users to occur concurrently and not interfere with each other.
- */
-export default class DownloadQueue {
-  private domain = "main";
-  private specs: Spec[] = [];
-  private tasks: DownloadTask[] = [];
-  private inited = false;
-  private kvfs: KeyValueFileSystem = new KeyValueFileSystem(
-    AsyncStorage,
-    "DownloadQueue"
-  );
-  private handlers?: DownloadQueueHandlers = undefined;
-  private active = true;
-  private urlToPath?: (url: string) => string = undefined;
-  private erroredIds = new Set<string>();
-  private errorTimer: NodeJS.Timeout | null = null;
-  private netInfoUnsubscriber?: () => void;
-  private netInfoFetchState?: () => Promise<DownloadQueueNetInfoState>;
+  /**
+   * The maximum number of downloads that can be in progress at once. Any other
+   * urls wait in the queue until a running download finishes, errors, or is
+   * removed. Defaults to no limit.
+   */
+  maxConcurrentDownloads?: number;
+  /**
+   * How failed downloads are retried. Any fields you leave out keep their
+   * defaults, which retry every minute forever.
+   */
+  retryPolicy?: DownloadQueueRetryPolicy;
+  /**
+   * Decides whether a failed download should be retried, or given up on right
+   * away. By default, everything but HTTP client errors (other than 408 and
+   * 429) is retried. See `defaultIsErrorRetryable`.
+   */
+  isErrorRetryable?: (error: DownloadQueueError) => boolean;
+  /**
+   * Whether init() should re-check finished files against the `expectedBytes`
+   * and `expectedHash` they were added with, re-downloading any that no longer
+   * match. Hashing large files takes a while, so this defaults to false.
+   */
+  verifyOnInit?: boolean;
+  /**
+   * Called every time a download is (re)started, including retries, to get
+   * HTTP headers to send along with any passed to `addUrl` (these win when
+   * both have the same header). Use this for things like bearer tokens that
+   * expire, since nothing it returns is persisted. If it throws, the download
+   * fails and is retried like any other.
+   */
+  getHeaders?: (url: string) => Promise<DownloadQueueHeaders>;
+  /**
+   * What probe() and revalidate() send their HEAD requests with. Defaults to
+   * the global fetch().
+   */
+  fetch?: typeof fetch;
+  /**
+   * The most disk space finished downloads may take up. When they exceed it,
+   * the least recently used urls (see `getAvailableUrl`) that aren't pinned
+   * are removed from the queue, with `onWillRemove` called first as usual.
+   * Defaults to no limit.
+   */
+  maxStorageBytes?: number;
+  /**
+   * Free space to always leave on the device. If you pass this (even 0), each
+   * download only starts if the device has room for it (as far as we know its
+   * size, from `expectedBytes`, a probe() or a previous attempt) plus this
+   * much. Other downloads are held, calling `onInsufficientStorage`, and
+   * rechecked every minute or whenever a url's file is deleted. By default,
+   * downloads start regardless of free space.
+   */
+  storageReserveBytes?: number;
+  /**
+   * The least time, in millis, between progress reports for any one url. The
+   * native downloader's reports in between are dropped. Defaults to 0.
+   */
+  minProgressIntervalMs?: number;
+  /**
+   * The least change in `fractionWritten`, between 0 and 1, for any one url to
+   * be reported again. Defaults to 0.
+   */
+  minProgressDelta?: number;
+  /**
+   * Where to persist the queue. Defaults to an AsyncStorageStore. Pass your own
+   * DownloadQueueStore to use MMKV, SQLite or the like, or a MemoryStore in
+   * tests.
+   */
+  store?: DownloadQueueStore;
+}
+
+/**
+ * A queue for downloading files in the background. You should call init()
+ * before using any other methods. A suggested practice is to have one queue
+ * per userId, using that userId as the queue's `domain`, if you want downloads
+ * several users to occur concurrently and not interfere with each other.
+ */
+export default class DownloadQueue {
+  private domain = "main";
+  private specs: Spec[] = [];
+  private tasks: DownloadTask[] = [];
+  private inited = false;
+  private store: DownloadQueueStore = new AsyncStorageStore();
+  private listeners: DownloadQueueListeners = {
+    begin: [],
+    progress: [],
+    progressBatch: [],
+    done: [],
+    willRemove: [],
+    error: [],
+    giveUp: [],
+    insufficientStorage: [],
+    queueChange: [],
+    queueProgress: [],
+    queueDrained: [],
+    evicted: [],
+    updated: [],
+  };
+  private handlersUnsubscriber?: () => void;
+  private active = true;
+  private urlToPath?: (url: string) => string = undefined;
+  private baseDirectory = defaultBaseDirectory();
+  private cacheDirectory = defaultCacheDirectory();
+  private evictionPolicy: DownloadQueueEvictionPolicy = "redownload";
+  private revalidateAfterMs?: number = undefined;
+  private revalidations = new Map<string, Promise<boolean>>();
+  private appStateSubscription?: NativeEventSubscription;
+  private pathForSpec?: (spec: DownloadQueuePathSpec) => string = undefined;
+  private retryPolicy = DEFAULT_RETRY_POLICY;
+  private retryTimes = new Map<string, number>(); // Spec id to retry timestamp
+  private lastErrors = new Map<string, DownloadQueueError>(); // By spec id
+  private isErrorRetryable = defaultIsErrorRetryable;
+  private pauseOnExpensiveConnections = false;
+  private requireInternetReachable = false;
+  private allowedCellularGenerations: string[] = [];
+  private isNetworkAllowed?: (
+    state: DownloadQueueNetInfoState,
+    url: string
+  ) => boolean;
+  private errorTimer: NodeJS.Timeout | null = null;
+  private verifyOnInit = false;
+  private getHeaders?: (url: string) => Promise<DownloadQueueHeaders>;
+  private fetch?: typeof fetch;
+  private netInfoUnsubscriber?: () => void;
+  private netInfoFetchState?: () => Promise<DownloadQueueNetInfoState>;
   private activeNetworkTypes: string[] = [];
+  private maxConcurrentDownloads = Infinity;
+  private pendingSpecs: Spec[] = []; // Waiting for a free download slot
+  private startingIds = new Set<string>(); // Spec ids waiting on getHeaders
+  private maxStorageBytes = Infinity;
+  private storageCheck: Promise<void> = Promise.resolve();
+  private storageReserveBytes?: number;
+  private spaceWaiterIds = new Set<string>(); // Held for lack of free space
+  private spaceTimer: NodeJS.Timeout | null = null;
   private wouldAutoPause = false; // Whether we'd pause if the user didn't
+  private networkState?: DownloadQueueNetInfoState; // Latest from NetInfo
+  private networkBlockedIds = new Set<string>(); // Tasks the network forbids
   private isPausedByUser = false; // Whether the client called pauseAll()
+  private throughputSamples: { time: number; bytes: number }[] = [];
+  private minProgressIntervalMs = 0;
+  private minProgressDelta = 0;
+  // When, and at what fraction, each task's progress was last reported
+  private lastProgress = new Map<string, { time: number; fraction: number }>();
+  private progressBatch = new Map<string, DownloadQueueProgressUpdate>(); // By url
 
   /**
    * Gets everything started (e.g. reconstitutes state from storage and
@@ -189,6 +1047,16 @@ export default class DownloadQueue {
    * @param options.startActive (optional) Whether to start the queue in an
    * active state where downloads will be started. If false, no downloads will
    * begin until you call resumeAll().
+   * @param options.baseDirectory (optional) The directory under which each
+   * domain's files are downloaded. Defaults to the documents directory.
+   * @param options.cacheDirectory (optional) The directory under which
+   * "cache" urls' files are downloaded. Defaults to the caches directory.
+   * @param options.evictionPolicy (optional) Whether to "redownload" (the
+   * default) or "remove" urls whose cached files the OS purged.
+   * @param options.revalidateAfterMs (optional) How old a finished file can
+   * get before we ask the server whether it's changed. Defaults to never.
+   * @param options.pathForSpec (optional) Names the files of urls added
+   * without a `filename`. By default, they're named after the url's id.
    * @param options.netInfoAddEventListener (optional) If you'd like
    * DownloadQueue to pause downloads when the device is offline, pass this.
    * Usually easiest to literally pass `NetInfo.addEventListener`.
@@ -203,6 +1071,43 @@ export default class DownloadQueue {
    * of @react-native-community/netinfo@9.3.7, valid values are "unknown" |
    * "none" | "wifi" | "cellular" | "bluetooth" | "ethernet" | "wimax" | "vpn" |
    * "other" | "mixed".
+   * @param options.pauseOnExpensiveConnections (optional) Whether to pause
+   * downloads on expensive (metered) connections. Defaults to false.
+   * @param options.requireInternetReachable (optional) Whether to wait for
+   * NetInfo's `isInternetReachable`, rather than just `isConnected`, before
+   * downloading. Defaults to false.
+   * @param options.allowedCellularGenerations (optional) The cellular
+   * generations (e.g. "5g") on which to download. Defaults to all of them.
+   * @param options.isNetworkAllowed (optional) Your own rule for whether a url
+   * may download on the current network, on top of the others.
+   * @param options.maxConcurrentDownloads (optional) The maximum number of
+   * downloads that can be in progress at once. Other urls wait in the queue
+   * until a slot frees up. Defaults to no limit.
+   * @param options.retryPolicy (optional) How failed downloads are retried.
+   * By default, they're retried every minute forever.
+   * @param options.isErrorRetryable (optional) Decides whether a failed
+   * download should be retried, or given up on right away. By default,
+   * everything but HTTP client errors (other than 408 and 429) is retried.
+   * @param options.verifyOnInit (optional) Whether to re-check finished files
+   * against the `expectedBytes` and `expectedHash` they were added with,
+   * re-downloading any that no longer match. Defaults to false.
+   * @param options.getHeaders (optional) Called every time a download is
+   * (re)started to get HTTP headers to send along with it. Use this for
+   * credentials that expire, since nothing it returns is persisted.
+   * @param options.fetch (optional) What to send HEAD requests with. Defaults
+   * to the global fetch().
+   * @param options.maxStorageBytes (optional) The most disk space finished
+   * downloads may take up. Beyond that, the least recently used urls that
+   * aren't pinned are removed. Defaults to no limit.
+   * @param options.storageReserveBytes (optional) Free space to always leave
+   * on the device. If passed, downloads are held until the device has room for
+   * them plus this much. By default, free space isn't checked.
+   * @param options.minProgressIntervalMs (optional) The least time between
+   * progress reports for a url. Defaults to 0.
+   * @param options.minProgressDelta (optional) The least change in a url's
+   * fraction downloaded for it to be reported again. Defaults to 0.
+   * @param options.store (optional) Where to persist the queue. Defaults to
+   * AsyncStorage.
    */
   async init({
     domain = "main",
@@ -210,27 +1115,79 @@ export default class DownloadQueue {
     netInfoAddEventListener = undefined,
     netInfoFetchState = undefined,
     activeNetworkTypes = [],
+    pauseOnExpensiveConnections = false,
+    requireInternetReachable = false,
+    allowedCellularGenerations = [],
+    isNetworkAllowed = undefined,
     startActive = true,
     urlToPath = undefined,
+    baseDirectory = defaultBaseDirectory(),
+    pathForSpec = undefined,
+    cacheDirectory = defaultCacheDirectory(),
+    evictionPolicy = "redownload",
+    revalidateAfterMs = undefined,
+    maxConcurrentDownloads = Infinity,
+    retryPolicy = {},
+    isErrorRetryable = defaultIsErrorRetryable,
+    verifyOnInit = false,
+    getHeaders = undefined,
+    fetch = undefined,
+    maxStorageBytes = Infinity,
+    storageReserveBytes = undefined,
+    minProgressIntervalMs = 0,
+    minProgressDelta = 0,
+    store = new AsyncStorageStore(),
   }: DownloadQueueOptions = {}): Promise<void> {
     if (this.inited) {
       throw new Error("DownloadQueue already initialized");
     }
+    if (!(maxConcurrentDownloads >= 1)) {
+      throw new Error("`maxConcurrentDownloads` must be at least 1");
+    }
+    if (!(maxStorageBytes >= 0)) {
+      throw new Error("`maxStorageBytes` can't be negative");
+    }
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+    if (
+      !(this.retryPolicy.maxAttempts >= 1) ||
+      !(this.retryPolicy.jitter >= 0 && this.retryPolicy.jitter <= 1)
+    ) {
+      throw new Error(
+        "`retryPolicy` needs `maxAttempts` of at least 1 and `jitter` between 0 and 1"
+      );
+    }
 
     this.domain = domain;
-    this.handlers = handlers;
+    if (handlers) {
+      this.handlersUnsubscriber = this.subscribe(handlers);
+    }
     this.urlToPath = urlToPath;
+    this.baseDirectory = baseDirectory;
+    this.pathForSpec = pathForSpec;
+    this.cacheDirectory = cacheDirectory;
+    this.evictionPolicy = evictionPolicy;
+    this.revalidateAfterMs = revalidateAfterMs;
+    this.maxConcurrentDownloads = maxConcurrentDownloads;
+    this.isErrorRetryable = isErrorRetryable;
+    this.verifyOnInit = verifyOnInit;
+    this.getHeaders = getHeaders;
+    this.fetch = fetch;
+    this.maxStorageBytes = maxStorageBytes;
+    this.storageReserveBytes = storageReserveBytes;
+    this.minProgressIntervalMs = minProgressIntervalMs;
+    this.minProgressDelta = minProgressDelta;
+    this.store = store;
 
     // This is safe to call even if it already exists. It'll also create all
     // necessary parent directories.
-    await RNFS.mkdir(this.getDomainedBasePath(), {
+    await RNFS.mkdir(this.getDomainedBasePath("persistent"), {
       NSURLIsExcludedFromBackupKey: true,
     });
 
     const [specData, existingTasks, dirFilenames] = await Promise.all([
-      this.kvfs.readMulti<Spec>(`${this.keyFromId("")}*`),
+      this.store.readAll(this.keyFromId("")),
       checkForExistingDownloads(),
-      this.getDirFilenames(),
+      this.getDirFilenames("persistent"),
     ]);
     const now = Date.now();
     const seenUrls = new Set<string>();
@@ -238,6 +1195,12 @@ export default class DownloadQueue {
     const loadedSpecs = specData.map(data => {
       const spec = data.value as Spec;
 
+      spec.priority = spec.priority ?? 0;
+      spec.failedAttempts = spec.failedAttempts ?? 0;
+      spec.gaveUp = spec.gaveUp ?? false;
+      spec.pinned = spec.pinned ?? false;
+      spec.paused = spec.paused ?? false;
+
       // This deduplicates specs that might have been written multiple times,
       // which has happened in the past based on client use mistakes.
       if (seenUrls.has(spec.url)) {
@@ -259,7 +1222,7 @@ export default class DownloadQueue {
     // the logic below (e.g. tasks to revive/etc) if deletions have happened
     // already.
     await Promise.all(
-      deletes.map(spec => this.kvfs.rm(this.keyFromId(spec.id)))
+      deletes.map(spec => this.store.remove(this.keyFromId(spec.id)))
     );
 
     this.specs = loadedSpecs.filter(spec => !deleteIds.has(spec.id));
@@ -269,6 +1232,17 @@ export default class DownloadQueue {
     // First revive tasks that were working in the background
     if (existingTasks.length > 0) {
       await Promise.all(existingTasks.map(task => this.reviveTask(task)));
+      // Revived tasks take whatever slots there are in priority order, leaving
+      // ensureDownloadsAreRunning() to resume them. The rest wait in line.
+      for (const spec of [...this.pendingSpecs]) {
+        if (!this.hasFreeSlot()) {
+          break;
+        }
+        if (this.tasks.some(task => task.id === spec.id)) {
+          this.pendingSpecs.splice(this.pendingSpecs.indexOf(spec), 1);
+        }
+      }
+      this.startPending();
       await ensureDownloadsAreRunning();
       if (!this.active) {
         // ensureDownloadsAreRunning forces all un-stopped downloads to start.
@@ -277,29 +1251,47 @@ export default class DownloadQueue {
           .filter(task => task.state === "DOWNLOADING")
           .forEach(task => void task.pause());
       }
+      // Likewise for urls the client paused individually, and ones that didn't
+      // get a slot (or that the network holds back)
+      this.tasks
+        .filter(task => !this.holdsSlot(task.id))
+        .forEach(task => void task.pause());
     }
 
     // Now start downloads for specs that haven't finished
+    const purgedSpecs: Spec[] = [];
+
     await Promise.all(
       this.specs.map(async spec => {
         if (
           existingTasks.some(task => task.id === spec.id) ||
-          spec.createTime <= 0
+          spec.createTime <= 0 ||
+          spec.gaveUp
         ) {
           return;
         }
-        await this.reconcileFinishStateWithFile(spec);
-        if (spec.finished) {
+        if (await this.reconcileFinishStateWithFile(spec)) {
+          purgedSpecs.push(spec);
+        } else if (spec.finished) {
           // Notify handlers about already-finished specs without tasks
           try {
             const fileSpec = await RNFS.stat(spec.path);
 
-            this.handlers?.onBegin?.(spec.url, fileSpec.size);
-            this.handlers?.onDone?.(spec.url, spec.path);
+            spec.sizeBytes = fileSpec.size;
+            this.emit("begin", {
+              url: spec.url,
+              totalBytes: fileSpec.size,
+              metadata: spec.metadata,
+            });
+            this.emit("done", {
+              url: spec.url,
+              localPath: spec.path,
+              metadata: spec.metadata,
+            });
           } catch {
             // File doesn't exist, treat as not finished
             spec.finished = false;
-            await this.kvfs.write(this.keyFromId(spec.id), spec);
+            await this.store.write(this.keyFromId(spec.id), spec);
             this.start(spec);
           }
         } else {
@@ -308,20 +1300,15 @@ export default class DownloadQueue {
       })
     );
 
-    // Delete any files that don't have a spec
-    const orphanedFiles = dirFilenames.map(splitFilenameFromExtension).filter(
-      // Remember that spec.id doesn't have an extension! So use basename.
-      ([basename]) => !this.specs.some(spec => spec.id === basename)
-    );
-    if (orphanedFiles.length) {
-      await Promise.all(
-        orphanedFiles.map(([basename, ext]) => {
-          try {
-            return RNFS.unlink(this.pathFromId(basename, ext));
-          } catch {
-            // Ignore errors
-          }
-        })
+    await this.recoverPurgedSpecs(purgedSpecs);
+
+    // Delete any files that don't have a spec. The OS cleans out the cache
+    // directory on its own, so we only bother with it when we're using it.
+    await this.deleteOrphanedFiles("persistent", dirFilenames);
+    if (this.specs.some(spec => spec.storageClass === "cache")) {
+      await this.deleteOrphanedFiles(
+        "cache",
+        await this.getDirFilenames("cache")
       );
     }
 
@@ -329,6 +1316,7 @@ export default class DownloadQueue {
       this.specs.filter(spec => -spec.createTime > now),
       now
     );
+    await this.enforceStorageLimit();
 
     this.wouldAutoPause = false;
 
@@ -340,12 +1328,27 @@ export default class DownloadQueue {
         "If you pass `activeNetworkTypes`, you must also pass both `netInfoAddEventListener` and `netInfoFetchState`"
       );
     }
+    if (
+      (pauseOnExpensiveConnections ||
+        requireInternetReachable ||
+        allowedCellularGenerations.length > 0 ||
+        isNetworkAllowed) &&
+      !netInfoAddEventListener
+    ) {
+      throw new Error(
+        "If you pass network conditions like `pauseOnExpensiveConnections`, you must also pass `netInfoAddEventListener`"
+      );
+    }
     if (netInfoAddEventListener && !netInfoFetchState) {
       throw new Error(
         "If you pass `netInfoAddEventListener`, you must also pass `netInfoFetchState`"
       );
     }
     this.activeNetworkTypes = activeNetworkTypes;
+    this.pauseOnExpensiveConnections = pauseOnExpensiveConnections;
+    this.requireInternetReachable = requireInternetReachable;
+    this.allowedCellularGenerations = allowedCellularGenerations;
+    this.isNetworkAllowed = isNetworkAllowed;
     this.netInfoFetchState = netInfoFetchState;
     if (netInfoAddEventListener) {
       // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
@@ -359,9 +1362,118 @@ export default class DownloadQueue {
       );
     }
 
+    // Cached files can be purged, and servers' files can change, while we're
+    // in the background.
+    this.appStateSubscription = AppState.addEventListener("change", state => {
+      if (state === "active") {
+        void this.checkForPurgedFiles();
+        void this.revalidateStaleFiles();
+      }
+    });
+    void this.revalidateStaleFiles();
+
     this.inited = true;
   }
 
+  /**
+   * Starts calling `listener` whenever `event` happens. Listeners can come and
+   * go at any time (even before init()), and they survive terminate().
+   *
+   * @param event Which event to listen for, e.g. "done"
+   * @param listener Called with the event's details. "willRemove" listeners
+   * can return a promise, which removals wait on before deleting the file.
+   * @returns A function that removes the listener, just like off()
+   */
+  on<E extends DownloadQueueEventName>(
+    event: E,
+    listener: DownloadQueueListener<E>
+  ): () => void {
+    // Listener arrays are replaced rather than changed, so that emit() isn't
+    // thrown off by listeners that come or go while it's calling them.
+    this.setListeners(event, [...this.listeners[event], listener]);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Stops calling a listener that was added with on().
+   *
+   * @param event The event the listener was added for
+   * @param listener The listener that was passed to on()
+   */
+  off<E extends DownloadQueueEventName>(
+    event: E,
+    listener: DownloadQueueListener<E>
+  ): void {
+    this.setListeners(
+      event,
+      this.listeners[event].filter(other => other !== listener)
+    );
+  }
+
+  /**
+   * Adds a whole set of handlers, like the `handlers` passed to init(), using
+   * on() under the hood. Handy if you'd rather have positional arguments.
+   *
+   * @param handlers Callbacks for events
+   * @returns A function that unsubscribes the handlers
+   */
+  subscribe(handlers: DownloadQueueHandlers): () => void {
+    const unsubscribers = [
+      this.on("begin", ({ url, totalBytes, metadata }) =>
+        handlers.onBegin?.(url, totalBytes, ...metadataArgs(metadata))
+      ),
+      this.on(
+        "progress",
+        ({ url, fractionWritten, bytesWritten, totalBytes, metadata }) =>
+          handlers.onProgress?.(
+            url,
+            fractionWritten,
+            bytesWritten,
+            totalBytes,
+            ...metadataArgs(metadata)
+          )
+      ),
+      this.on("progressBatch", ({ updates }) =>
+        handlers.onProgressBatch?.(updates)
+      ),
+      this.on("done", ({ url, localPath, metadata }) =>
+        handlers.onDone?.(url, localPath, ...metadataArgs(metadata))
+      ),
+      this.on("willRemove", ({ url, metadata }) =>
+        handlers.onWillRemove?.(url, ...metadataArgs(metadata))
+      ),
+      this.on("error", ({ url, error, metadata }) =>
+        handlers.onError?.(url, error, ...metadataArgs(metadata))
+      ),
+      this.on("giveUp", ({ url, error, metadata }) =>
+        handlers.onGiveUp?.(url, error, ...metadataArgs(metadata))
+      ),
+      this.on(
+        "insufficientStorage",
+        ({ url, requiredBytes, freeBytes, metadata }) =>
+          handlers.onInsufficientStorage?.(
+            url,
+            requiredBytes,
+            freeBytes,
+            ...metadataArgs(metadata)
+          )
+      ),
+      this.on("queueChange", () => handlers.onQueueChange?.()),
+      this.on("queueProgress", progress =>
+        handlers.onQueueProgress?.(progress)
+      ),
+      this.on("queueDrained", () => handlers.onQueueDrained?.()),
+      this.on("evicted", ({ url, metadata }) =>
+        handlers.onEvicted?.(url, ...metadataArgs(metadata))
+      ),
+      this.on("updated", ({ url, localPath, metadata }) =>
+        handlers.onUpdated?.(url, localPath, ...metadataArgs(metadata))
+      ),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
   /**
    * Terminates all pending downloads and stops all activity, including
    * processing lazy-deletes. You can re-init() if you'd like -- but in most
@@ -372,18 +1484,33 @@ export default class DownloadQueue {
     this.tasks.forEach(task => void task.stop());
     this.tasks = [];
     this.specs = [];
-    this.handlers = undefined;
+    this.pendingSpecs = [];
+    this.startingIds.clear();
+    this.spaceWaiterIds.clear();
+    this.scheduleSpaceCheck();
+    if (this.handlersUnsubscriber) {
+      this.handlersUnsubscriber();
+      this.handlersUnsubscriber = undefined;
+    }
     this.urlToPath = undefined;
+    this.pathForSpec = undefined;
+    this.fetch = undefined;
     this.inited = false;
-    this.erroredIds.clear();
-    if (this.errorTimer) {
-      clearInterval(this.errorTimer);
-      this.errorTimer = null;
-    }
+    this.retryTimes.clear();
+    this.lastErrors.clear();
+    this.networkState = undefined;
+    this.networkBlockedIds.clear();
+    this.throughputSamples = [];
+    this.lastProgress.clear();
+    this.progressBatch.clear();
+    this.scheduleRetryTimer();
     if (this.netInfoUnsubscriber) {
       this.netInfoUnsubscriber();
       this.netInfoUnsubscriber = undefined;
     }
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = undefined;
+    this.revalidations.clear();
   }
 
   /**
@@ -391,50 +1518,248 @@ export default class DownloadQueue {
    * already been added before. If it's been lazy-deleted, it'll be revived.
    *
    * @param url Remote url to download
+   * @param options (optional) Settings for this url
+   * @param options.priority (optional) Urls with higher priorities are
+   * downloaded first. If the url's already been added, its priority is
+   * updated. Defaults to 0.
+   * @param options.expectedBytes (optional) The size the downloaded file must
+   * have. If it doesn't, the file is deleted and the download fails with an
+   * "integrity" error, to be retried like any other failure.
+   * @param options.expectedHash (optional) The hex digest the downloaded file
+   * must have, computed with `options.hashAlgorithm`.
+   * @param options.hashAlgorithm (optional) "md5" or "sha256" (the default).
+   * @param options.headers (optional) HTTP headers to send when downloading
+   * the url. These are persisted, so use `getHeaders` in init() for anything
+   * short-lived.
+   * @param options.pinned (optional) Pinned urls are never evicted to stay
+   * under `maxStorageBytes`. Defaults to false.
+   * @param options.metadata (optional) Anything you want to keep with the url.
+   * If the url's already been added, its metadata is replaced.
+   * @param options.filename (optional) What to name the url's file, instead of
+   * a generated name.
+   * @param options.probe (optional) Whether to probe() the url first, to learn
+   * its size and content type before it downloads. Defaults to false.
    */
-  async addUrl(url: string): Promise<void> {
+  async addUrl(
+    url: string,
+    options: DownloadQueueAddUrlOptions = {}
+  ): Promise<void> {
     this.verifyInitialized();
 
-    const curSpec = this.specs.find(spec => spec.url === url);
-    if (curSpec) {
-      // Revive lazy-deletion cases
-      if (curSpec.createTime <= 0) {
-        curSpec.createTime = Date.now();
+    await this.addUrlsInternal([{ url }], options);
+  }
 
-        const [fileExists] = await Promise.all([
-          RNFS.exists(curSpec.path),
-          this.kvfs.write(this.keyFromId(curSpec.id), curSpec),
-        ]);
-        if (!curSpec.finished || !fileExists) {
-          this.start(curSpec);
-        } else {
-          // If we already have the file, and you're reviving it from deletion,
-          // send "begin" and "done" notifications so that most clients can
-          // treat it the same as a fresh download.
-          const fileSpec = await RNFS.stat(curSpec.path);
+  /**
+   * Like addUrl(), but for many urls at once. The urls' records are saved
+   * together in one write, which is much faster than calling addUrl() for
+   * each of them.
+   *
+   * @param urls Remote urls to download, or entries pairing each one with its
+   * own metadata
+   * @param options (optional) Settings for every one of the urls, just like
+   * the options of addUrl()
+   * @returns Which urls were added (including any revived from lazy-deletion),
+   * and which were already in the queue
+   */
+  async addUrls(
+    urls: (string | DownloadQueueEntry)[],
+    options: DownloadQueueAddUrlOptions = {}
+  ): Promise<DownloadQueueChangeSummary> {
+    this.verifyInitialized();
+
+    return await this.addUrlsInternal(urls.map(toEntry), options);
+  }
+
+  private async addUrlsInternal(
+    entries: DownloadQueueEntry[],
+    {
+      priority,
+      expectedBytes,
+      expectedHash,
+      hashAlgorithm,
+      headers,
+      pinned = false,
+      allowedNetworkTypes,
+      maxCellularBytes,
+      metadata: sharedMetadata,
+      filename: sharedFilename,
+      storageClass,
+      probe = false,
+    }: DownloadQueueAddUrlOptions
+  ): Promise<DownloadQueueChangeSummary> {
+    if (
+      (allowedNetworkTypes?.length || maxCellularBytes !== undefined) &&
+      !this.netInfoFetchState
+    ) {
+      throw new Error(
+        "If you pass `allowedNetworkTypes` or `maxCellularBytes`, you must have init'd with `netInfoFetchState`"
+      );
+    }
+
+    const summary: DownloadQueueChangeSummary = {
+      added: [],
+      removed: [],
+      unchanged: [],
+    };
+    const created: Spec[] = [];
+    const revived: Spec[] = [];
+    const updated: Spec[] = [];
+    // Going through a Map deduplicates any urls the caller might have repeated.
+    const entriesByUrl = new Map(entries.map(entry => [entry.url, entry]));
+    const takenFilenames = new Set(this.specs.map(spec => spec.filename));
+    const newUrls = [...entriesByUrl.keys()].filter(
+      url => !this.specs.some(spec => spec.url === url)
+    );
+    const probes = new Map(
+      probe
+        ? await Promise.all(
+            newUrls.map(
+              async url =>
+                [
+                  url,
+                  // Probing's just a head start, so failures don't stop us
+                  await this.doProbe(url, headers).catch(() => undefined),
+                ] as const
+            )
+          )
+        : []
+    );
 
-          this.handlers?.onBegin?.(curSpec.url, fileSpec.size);
-          this.handlers?.onDone?.(curSpec.url, curSpec.path);
+    // New specs are made up front, so that a bad filename throws before we've
+    // touched any existing ones.
+    for (const url of newUrls) {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const entry = entriesByUrl.get(url)!;
+      const id = uuid();
+      const metadata = entry.metadata ?? sharedMetadata;
+      const probed = probedFields(probes.get(url));
+      const filename =
+        entry.filename ??
+        sharedFilename ??
+        this.pathForSpec?.({
+          id,
+          url,
+          extension: this.extensionOf(url, probed.contentType),
+          metadata,
+        });
+
+      if (filename !== undefined) {
+        if (!filename || filename.includes("/")) {
+          throw new Error(
+            `The filename for ${url} can't be empty or contain slashes`
+          );
+        }
+        if (
+          filename.endsWith(PARTIAL_SUFFIX) ||
+          filename.endsWith(UPDATE_SUFFIX)
+        ) {
+          throw new Error(
+            `The filename "${filename}" for ${url} can't end in "${PARTIAL_SUFFIX}" or "${UPDATE_SUFFIX}"`
+          );
+        }
+        if (takenFilenames.has(filename)) {
+          throw new Error(
+            `The filename "${filename}" for ${url} is already in use`
+          );
         }
+        takenFilenames.add(filename);
       }
-      return;
+
+      const spec: Spec = {
+        id,
+        url,
+        path: "",
+        createTime: Date.now(),
+        finished: false,
+        priority: priority ?? 0,
+        failedAttempts: 0,
+        gaveUp: false,
+        expectedBytes,
+        expectedHash,
+        hashAlgorithm,
+        headers,
+        pinned,
+        allowedNetworkTypes,
+        maxCellularBytes,
+        paused: false,
+        metadata,
+        filename,
+        storageClass,
+        ...probed,
+      };
+
+      spec.path = this.pathOf(spec);
+      created.push(spec);
     }
 
-    const id = uuid();
-    const spec: Spec = {
-      id,
-      url,
-      path: this.pathFromId(id, this.extensionFromUri(url)),
-      createTime: Date.now(),
-      finished: false,
-    };
+    for (const [url, entry] of entriesByUrl) {
+      const curSpec = this.specs.find(spec => spec.url === url);
+      const metadata = entry.metadata ?? sharedMetadata;
+
+      if (!curSpec) {
+        summary.added.push(url);
+      } else if (curSpec.createTime <= 0) {
+        // Revive lazy-deletion cases
+        curSpec.createTime = Date.now();
+        curSpec.priority = priority ?? curSpec.priority;
+        curSpec.metadata = metadata ?? curSpec.metadata;
+        // Re-adding is as explicit as retryUrl(), so we start from scratch.
+        curSpec.failedAttempts = 0;
+        curSpec.gaveUp = false;
+        this.lastErrors.delete(curSpec.id);
+        revived.push(curSpec);
+        summary.added.push(url);
+      } else {
+        if (priority !== undefined || metadata !== undefined) {
+          curSpec.priority = priority ?? curSpec.priority;
+          curSpec.metadata = metadata ?? curSpec.metadata;
+          updated.push(curSpec);
+        }
+        summary.unchanged.push(url);
+      }
+    }
 
-    // Do this first, before starting the download, so that we don't leave any
+    // Do this first, before starting any downloads, so that we don't leave any
     // orphans (e.g. if we start a download first but then error on writing the
     // spec).
-    await this.kvfs.write(this.keyFromId(id), spec);
-    this.specs.push(spec);
-    this.start(spec);
+    const [filesExist] = await Promise.all([
+      Promise.all(revived.map(spec => RNFS.exists(spec.path))),
+      this.writeSpecs([...created, ...revived, ...updated]),
+    ]);
+    this.specs.push(...created);
+
+    for (let i = 0; i < revived.length; i++) {
+      const spec = revived[i];
+
+      if (!spec.finished || !filesExist[i]) {
+        this.start(spec);
+      } else {
+        // If we already have the file, and you're reviving it from deletion,
+        // send "begin" and "done" notifications so that most clients can
+        // treat it the same as a fresh download.
+        const fileSpec = await RNFS.stat(spec.path);
+
+        this.emit("begin", {
+          url: spec.url,
+          totalBytes: fileSpec.size,
+          metadata: spec.metadata,
+        });
+        this.emit("done", {
+          url: spec.url,
+          localPath: spec.path,
+          metadata: spec.metadata,
+        });
+      }
+    }
+    created.forEach(spec => this.start(spec));
+    if (priority !== undefined && updated.length) {
+      this.reenqueue(updated);
+      this.startPending();
+    }
+    if (summary.added.length || updated.length) {
+      this.emit("queueChange", {});
+    }
+    return summary;
   }
 
   /**
@@ -450,207 +1775,636 @@ export default class DownloadQueue {
   async removeUrl(url: string, deleteTime = -1): Promise<void> {
     this.verifyInitialized();
 
-    return await this.removeUrlInternal(url, deleteTime);
+    await this.removeUrlsInternal([url], deleteTime);
   }
 
-  private async removeUrlInternal(
-    url: string,
-    deleteTime: number,
-    scheduleDeletion = true
-  ): Promise<void> {
-    const index = this.specs.findIndex(spec => spec.url === url);
+  /**
+   * Like removeUrl(), but for many urls at once. `onWillRemove` is called for
+   * all of them in parallel, and their records are deleted (or, for lazy
+   * deletes, saved) together in one write.
+   *
+   * @param urls Urls to remove, including the downloaded files associated with
+   * them
+   * @param deleteTime (optional) Same as for removeUrl()
+   * @returns Which urls were removed, and which weren't in the queue to begin
+   * with
+   */
+  async removeUrls(
+    urls: string[],
+    deleteTime = -1
+  ): Promise<DownloadQueueChangeSummary> {
+    this.verifyInitialized();
 
-    if (index < 0) {
-      return;
-    }
+    return await this.removeUrlsInternal(urls, deleteTime);
+  }
 
-    const spec = this.specs[index];
+  private async removeUrlsInternal(
+    urls: string[],
+    deleteTime: number
+  ): Promise<DownloadQueueChangeSummary> {
+    const urlSet = new Set(urls);
+    const specs = this.specs.filter(spec => urlSet.has(spec.url));
+    const removedUrls = new Set(specs.map(spec => spec.url));
+    const summary: DownloadQueueChangeSummary = {
+      added: [],
+      removed: [...removedUrls],
+      unchanged: [...urlSet].filter(url => !removedUrls.has(url)),
+    };
+
+    if (!specs.length) {
+      return summary;
+    }
 
     // Block here to give caller the chance to remove any UI elements that might
-    // have depended on the local file being available.
-    await this.handlers?.onWillRemove?.(spec.url);
+    // have depended on the local files being available.
+    await Promise.all(
+      specs.map(spec =>
+        Promise.all(
+          this.emit("willRemove", { url: spec.url, metadata: spec.metadata })
+        )
+      )
+    );
 
-    const task = this.removeTask(spec.id);
-    if (task) {
-      task.stop();
+    const specSet = new Set(specs);
+    const removingDownloads = specs.some(isSpecDownloadable);
+    let freedSlot = false;
+
+    this.pendingSpecs = this.pendingSpecs.filter(
+      pending => !specSet.has(pending)
+    );
+    for (const spec of specs) {
+      const task = this.removeTask(spec.id);
+      if (task) {
+        task.stop();
+      }
+      if (task || this.startingIds.delete(spec.id)) {
+        freedSlot = true;
+      }
+      this.spaceWaiterIds.delete(spec.id);
+    }
+    if (freedSlot) {
+      this.startPending();
     }
 
-    // If it's a lazy delete, just update the spec but don't mess with files.
+    // If it's a lazy delete, just update the specs but don't mess with files.
     if (deleteTime >= 0) {
-      spec.createTime = -deleteTime; // Negative zero also ok for us.
-      await this.kvfs.write(this.keyFromId(spec.id), spec);
-      if (scheduleDeletion && deleteTime > 0) {
-        this.scheduleDeletions([spec], Date.now());
+      // Negative zero also ok for us.
+      specs.forEach(spec => (spec.createTime = -deleteTime));
+      await this.writeSpecs(specs);
+      if (deleteTime > 0) {
+        this.scheduleDeletions(specs, Date.now());
       }
     } else {
-      // Run serially because we definitely want to delete the spec from
-      // storage, but unlink could (acceptably) throw if the file doesn't exist.
-      await this.kvfs.rm(this.keyFromId(spec.id));
-      this.specs.splice(index, 1);
-
-      try {
-        await RNFS.unlink(spec.path);
-      } catch {
-        // Expected for missing files
-      }
+      // Run serially because we definitely want to delete the specs from
+      // storage, but unlink could (acceptably) throw if a file doesn't exist.
+      await this.store.removeMulti(specs.map(spec => this.keyFromId(spec.id)));
+      this.specs = this.specs.filter(spec => !specSet.has(spec));
+      specs.forEach(spec => this.lastErrors.delete(spec.id));
+
+      await Promise.all(specs.map(unlinkSpecFiles));
+      this.startWaitingForSpace();
+    }
+    this.emit("queueChange", {});
+    if (removingDownloads) {
+      this.emitIfDrained();
     }
+    return summary;
   }
 
   /**
    * Sets the sum total of urls to keep in the queue. If previously-added urls
-   * don't show up here, they'll be removed. New urls will be added.
+   * don't show up here, they'll be removed. New urls will be added. Both
+   * happen in batches, like removeUrls() and addUrls().
    *
+   * @param urls The urls to keep, or entries pairing each one with its
+   * metadata. Metadata given here replaces what the url had.
    * @param deleteTime (optional) The timestamp beyond which files associated
    * with removed urls should be deleted, or zero if they should be deleted the
    * next time DownloadQueue is initialized. The record of those urls, in the
    * meantime, won't be acknowledged via DownloadQueue's API.
+   * @returns Which urls were added, which were removed, and which were already
+   * in the queue
    */
-  async setQueue(urls: string[], deleteTime = -1): Promise<void> {
+  async setQueue(
+    urls: (string | DownloadQueueEntry)[],
+    deleteTime = -1
+  ): Promise<DownloadQueueChangeSummary> {
     this.verifyInitialized();
 
-    const urlSet = new Set(urls);
-    const liveUrls = new Set(
-      this.specs.filter(spec => spec.createTime > 0).map(spec => spec.url)
-    );
-    // Using urlSet instead of urls in the filter automatically deduplicates
-    // any URLs the caller might have duplicated.
-    const urlsToAdd = [...urlSet].filter(url => !liveUrls.has(url));
-    const specsToRemove = this.specs.filter(
-      spec => !urlSet.has(spec.url) && spec.createTime > 0
-    );
-    const urlsToRemove = specsToRemove.map(spec => spec.url);
+    const entries = urls.map(toEntry);
+    const urlSet = new Set(entries.map(entry => entry.url));
+    const urlsToRemove = this.specs
+      .filter(spec => !urlSet.has(spec.url) && spec.createTime > 0)
+      .map(spec => spec.url);
 
-    // We could create logic that's more efficient than this (e.g. by bundling
-    // bulk operations on this.kvfs/etc), but it requires that we keep the lazy-
-    // delete logic consistent with add/removeUrl. The risk of bugs is not worth
-    // the performance boost if you assume most people aren't massively churning
-    // their queues.
-    for (const url of urlsToRemove) {
-      await this.removeUrlInternal(url, deleteTime, false);
-    }
-    this.scheduleDeletions(specsToRemove, Date.now());
-    for (const url of urlsToAdd) {
-      await this.addUrl(url);
-    }
+    const { removed } = await this.removeUrlsInternal(urlsToRemove, deleteTime);
+    const { added, unchanged } = await this.addUrlsInternal(entries, {});
+
+    return { added, removed, unchanged };
   }
 
   /**
-   * Returns the status of all urls in the queue, excluding urls marked for
-   * deletion.
+   * Retries a url right away, if it's either failed permanently (see
+   * `DownloadQueueRetryPolicy.maxAttempts`) or waiting to be retried. This also
+   * resets the count of failed attempts.
    *
-   * @returns urls, paths to local files, and whether the file has been
-   *    completely downloaded. If `!complete`, the file may be only partially
-   *    downloaded.
+   * @param url Url to retry
    */
-  async getQueueStatus(): Promise<DownloadQueueStatus[]> {
+  async retryUrl(url: string): Promise<void> {
     this.verifyInitialized();
 
-    const liveSpecs = this.specs.filter(spec => spec.createTime > 0);
-
-    return await Promise.all(
-      liveSpecs.map(async (spec: Spec): Promise<DownloadQueueStatus> => {
-        // Not all files on disk are necessarily complete (they could be
-        // partially downloaded). So filter by `finished`. But you also can't
-        // trust that completely because sometimes the disk files are flushed
-        // (e.g. on iOS simulator when installing a new build). So we
-        // double-check that the file actually exists.
-        const complete = spec.finished && (await RNFS.exists(spec.path));
-        return {
-          url: spec.url,
-          path: spec.path,
-          complete,
-        };
-      })
+    const spec = this.specs.find(
+      spec => spec.url === url && spec.createTime > 0
     );
+    if (!spec || (!spec.gaveUp && !this.retryTimes.has(spec.id))) {
+      return;
+    }
+
+    spec.failedAttempts = 0;
+    spec.gaveUp = false;
+    if (this.retryTimes.delete(spec.id)) {
+      this.scheduleRetryTimer();
+    }
+    await this.store.write(this.keyFromId(spec.id), spec);
+    this.start(spec);
   }
 
   /**
-   * Returns the status of a single url in the queue, excluding urls marked for
-   * deletion.
+   * Changes the priority of a url in the queue. If the url is waiting for a
+   * download slot and now outranks a running download, that download is
+   * stopped and put back in line so the url can start right away.
+   *
+   * @param url Url whose priority to change
+   * @param priority Urls with higher priorities are downloaded first
    */
-  async getStatus(url: string): Promise<DownloadQueueStatus | null> {
+  async setPriority(url: string, priority: number): Promise<void> {
     this.verifyInitialized();
 
     const spec = this.specs.find(
       spec => spec.url === url && spec.createTime > 0
     );
     if (!spec) {
-      return null;
+      return;
     }
 
-    return {
-      url: spec.url,
-      path: spec.path,
-      complete: spec.finished && (await RNFS.exists(spec.path)),
-    };
+    await this.setPriorityInternal(spec, priority);
+  }
+
+  private async setPriorityInternal(spec: Spec, priority: number) {
+    spec.priority = priority;
+    await this.store.write(this.keyFromId(spec.id), spec);
+    this.emit("queueChange", {});
+    this.reenqueue([spec]);
+    this.startPending();
   }
 
   /**
-   * Pauses all active downloads. Most used to implement wifi-only downloads,
-   * by pausing when NetInfo reports a non-wifi connection.
+   * Pins or unpins a url. Pinned urls are never evicted to stay under
+   * `maxStorageBytes`. Unpinning a url can cause evictions right away.
+   *
+   * @param url Url to pin or unpin
+   * @param pinned Whether the url should be pinned
    */
-  pauseAll(): void {
+  async setPinned(url: string, pinned: boolean): Promise<void> {
     this.verifyInitialized();
 
-    this.isPausedByUser = true;
-    this.pauseAllInternal();
-  }
-
-  private pauseAllInternal(): void {
-    this.active = false;
-    this.tasks.forEach(task => void task.pause());
-
-    if (this.errorTimer) {
-      clearInterval(this.errorTimer);
-      this.errorTimer = null;
+    const spec = this.specs.find(
+      spec => spec.url === url && spec.createTime > 0
+    );
+    if (!spec) {
+      return;
     }
+
+    spec.pinned = pinned;
+    await this.store.write(this.keyFromId(spec.id), spec);
+    this.emit("queueChange", {});
+    await this.enforceStorageLimit();
   }
 
   /**
-   * Resumes all active downloads that were previously paused. If you init()
-   * with startActive === false, you'll want to call this at some point or else
-   * downloads will never happen. Also, downloads will only proceed if the
-   * network connection type passes the `activeNetworkTypes` filter (which by
-   * default allows all connection types).
+   * Merges changes into a url's metadata, which is otherwise set by addUrl().
+   * Only top-level keys are merged.
+   *
+   * @param url Url whose metadata to change
+   * @param patch Keys to add to or replace in the url's metadata
    */
-  resumeAll(): void {
+  async updateMetadata(
+    url: string,
+    patch: DownloadQueueMetadata
+  ): Promise<void> {
     this.verifyInitialized();
 
-    this.isPausedByUser = false;
-    if (!this.wouldAutoPause) {
-      // We only resume downloads if we weren't told otherwise to auto-pause
-      // based on network conditions.
-      this.resumeAllInternal();
+    const spec = this.specs.find(
+      spec => spec.url === url && spec.createTime > 0
+    );
+    if (!spec) {
+      return;
     }
-  }
 
-  private resumeAllInternal() {
-    this.active = true;
-    this.tasks.forEach(task => void task.resume());
-
-    if (this.erroredIds.size > 0) {
-      this.ensureErrorTimerOn();
-    }
+    spec.metadata = { ...spec.metadata, ...patch };
+    await this.store.write(this.keyFromId(spec.id), spec);
+    this.emit("queueChange", {});
   }
 
   /**
-   * Gets a remote or local url, preferring to the local path when possible. If
-   * the local file hasn't yet been downloaded, returns the remote url. Also
-   * returns the remote url if the record is being lazy-deleted.
-   * @param url The remote URL to check for local availability
-   * @returns A local file path if the URL has already been downloaded, else url
+   * Returns the status of all urls in the queue, excluding urls marked for
+   * deletion unless you ask for them.
+   *
+   * @param options (optional) Which urls to include
+   * @returns urls, paths to local files, and whether the file has been
+   *    completely downloaded. If `!complete`, the file may be only partially
+   *    downloaded.
    */
-  async getAvailableUrl(url: string): Promise<string> {
+  async getQueueStatus({
+    includeLazyDeleted = false,
+  }: DownloadQueueStatusOptions = {}): Promise<DownloadQueueStatus[]> {
     this.verifyInitialized();
 
-    const spec = this.specs.find(spec => spec.url === url);
+    return await this.query({ includeLazyDeleted });
+  }
+
+  /**
+   * Returns the statuses of just the urls you're interested in, like
+   * getQueueStatus() but filtered, sorted and paginated.
+   *
+   * @param options (optional) Which urls to include, and in what order. See
+   * DownloadQueueQuery.
+   * @returns The matching statuses
+   */
+  async query({
+    includeLazyDeleted = false,
+    state,
+    metadataMatch,
+    createdBefore,
+    createdAfter,
+    sortBy,
+    sortOrder = "asc",
+    limit = Infinity,
+    offset = 0,
+    verifyFiles = true,
+  }: DownloadQueueQuery = {}): Promise<DownloadQueueStatus[]> {
+    this.verifyInitialized();
+
+    const states = typeof state === "string" ? [state] : state;
+    // Filter on what we know without touching the filesystem first, so that
+    // we check as few files as possible.
+    const specs = this.specs.filter(
+      spec =>
+        (includeLazyDeleted || spec.createTime > 0) &&
+        (createdBefore === undefined ||
+          (spec.createTime > 0 && spec.createTime < createdBefore)) &&
+        (createdAfter === undefined || spec.createTime > createdAfter) &&
+        (!metadataMatch ||
+          Object.keys(metadataMatch).every(
+            key => spec.metadata?.[key] === metadataMatch[key]
+          ))
+    );
+    const statuses = (
+      await Promise.all(
+        specs.map(spec => this.statusFromSpec(spec, verifyFiles))
+      )
+    ).filter(status => !states || states.includes(status.state));
+
+    if (sortBy) {
+      const direction = sortOrder === "desc" ? -1 : 1;
+
+      statuses.sort((a, b) =>
+        compareSortValues(a[sortBy], b[sortBy], direction)
+      );
+    }
+    return statuses.slice(offset, offset + limit);
+  }
+
+  /**
+   * Returns how far along the whole queue is, e.g. for a badge with one
+   * percentage and time remaining. Goes by our records, so finished files aren't
+   * checked on disk the way getQueueStatus() checks them.
+   */
+  getAggregateProgress(): DownloadQueueAggregateProgress {
+    this.verifyInitialized();
+
+    const live = this.specs.filter(spec => spec.createTime > 0 && !spec.gaveUp);
+    let bytesDownloaded = 0;
+    let bytesTotal = 0;
+    let completeCount = 0;
+
+    for (const spec of live) {
+      if (spec.finished) {
+        const size = spec.sizeBytes ?? spec.totalBytes ?? 0;
+
+        bytesDownloaded += size;
+        bytesTotal += size;
+        completeCount++;
+      } else {
+        bytesDownloaded += spec.bytesDownloaded ?? 0;
+        bytesTotal +=
+          spec.totalBytes ?? spec.expectedBytes ?? spec.contentLength ?? 0;
+      }
+    }
+
+    const remainingCount = live.length - completeCount;
+    const bytesPerSecond = this.bytesPerSecond();
+
+    return {
+      bytesDownloaded,
+      bytesTotal,
+      fraction:
+        bytesTotal > 0 ? bytesDownloaded / bytesTotal : remainingCount ? 0 : 1,
+      completeCount,
+      remainingCount,
+      bytesPerSecond,
+      etaMs:
+        bytesPerSecond > 0
+          ? ((bytesTotal - bytesDownloaded) / bytesPerSecond) * 1000
+          : undefined,
+    };
+  }
+
+  /**
+   * Returns the status of a single url in the queue, excluding urls marked for
+   * deletion unless you ask for them.
+   *
+   * @param url Url to get the status of
+   * @param options (optional) Which urls to include
+   */
+  async getStatus(
+    url: string,
+    { includeLazyDeleted = false }: DownloadQueueStatusOptions = {}
+  ): Promise<DownloadQueueStatus | null> {
+    this.verifyInitialized();
+
+    const spec = this.specs.find(
+      spec => spec.url === url && (includeLazyDeleted || spec.createTime > 0)
+    );
+    if (!spec) {
+      return null;
+    }
+
+    return await this.statusFromSpec(spec);
+  }
+
+  private async statusFromSpec(
+    spec: Spec,
+    verifyFile = true
+  ): Promise<DownloadQueueStatus> {
+    const position = this.pendingSpecs.indexOf(spec);
+    const lazyDeleted = spec.createTime <= 0;
+    // Not all files on disk are necessarily complete (they could be partially
+    // downloaded). So filter by `finished`. But you also can't trust that
+    // completely because sometimes the disk files are flushed (e.g. on iOS
+    // simulator when installing a new build). So we double-check that the file
+    // actually exists, unless the caller would rather be fast.
+    const complete =
+      spec.finished && (!verifyFile || (await RNFS.exists(spec.path)));
+    const bytesTotal = spec.totalBytes ?? 0;
+
+    return {
+      url: spec.url,
+      path: spec.path,
+      complete,
+      state: this.stateFromSpec(spec, complete),
+      bytesDownloaded: complete ? bytesTotal : spec.bytesDownloaded ?? 0,
+      bytesTotal,
+      lastError: this.lastErrors.get(spec.id),
+      retryCount: spec.failedAttempts,
+      createTime: lazyDeleted ? undefined : spec.createTime,
+      deleteTime: lazyDeleted ? -spec.createTime : undefined,
+      finishTime: complete ? spec.finishTime : undefined,
+      priority: spec.priority,
+      position: position >= 0 ? position : undefined,
+      failed: spec.gaveUp,
+      pinned: spec.pinned,
+      paused: spec.paused,
+      waitingForSpace: this.spaceWaiterIds.has(spec.id),
+      metadata: spec.metadata,
+    };
+  }
+
+  /**
+   * The one place that decides a url's DownloadQueueState, from the rest of
+   * our bookkeeping, so that the state can never disagree with it. See
+   * DownloadQueueState for how urls move between states.
+   */
+  private stateFromSpec(spec: Spec, complete: boolean): DownloadQueueState {
+    if (spec.createTime <= 0) {
+      return "lazyDeleted";
+    }
+    if (complete) {
+      return "complete";
+    }
+    if (spec.gaveUp) {
+      return "failed";
+    }
+    if (!this.active || spec.paused || !this.networkSuits(spec)) {
+      return "paused";
+    }
+    if (this.retryTimes.has(spec.id)) {
+      return "waitingForRetry";
+    }
+    if (this.spaceWaiterIds.has(spec.id)) {
+      return "waitingForSpace";
+    }
+    if (
+      (this.tasks.some(task => task.id === spec.id) &&
+        !this.pendingSpecs.includes(spec)) ||
+      this.startingIds.has(spec.id)
+    ) {
+      return "downloading";
+    }
+    return "queued";
+  }
+
+  /**
+   * Pauses all active downloads. Most used to implement wifi-only downloads,
+   * by pausing when NetInfo reports a non-wifi connection.
+   */
+  pauseAll(): void {
+    this.verifyInitialized();
+
+    this.isPausedByUser = true;
+    this.pauseAllInternal();
+  }
+
+  private pauseAllInternal(): void {
+    this.active = false;
+    this.tasks.forEach(task => void task.pause());
+    this.scheduleRetryTimer();
+  }
+
+  /**
+   * Resumes all active downloads that were previously paused. If you init()
+   * with startActive === false, you'll want to call this at some point or else
+   * downloads will never happen. Also, downloads will only proceed if the
+   * network connection type passes the `activeNetworkTypes` filter (which by
+   * default allows all connection types).
+   */
+  resumeAll(): void {
+    this.verifyInitialized();
+
+    this.isPausedByUser = false;
+    if (!this.wouldAutoPause) {
+      // We only resume downloads if we weren't told otherwise to auto-pause
+      // based on network conditions.
+      this.resumeAllInternal();
+    }
+  }
+
+  private resumeAllInternal() {
+    this.active = true;
+    this.tasks
+      .filter(task => this.holdsSlot(task.id))
+      .forEach(task => void task.resume());
+    this.scheduleRetryTimer();
+  }
+
+  /**
+   * Pauses a single url's download, while the rest of the queue carries on.
+   * The url stays paused, even across launches, until you call resumeUrl(). A
+   * paused download gives up its download slot (see `maxConcurrentDownloads`)
+   * to the next url in line, but keeps what it's downloaded so far.
+   *
+   * @param url Url to pause
+   */
+  async pauseUrl(url: string): Promise<void> {
+    this.verifyInitialized();
+
+    const spec = this.specs.find(
+      spec => spec.url === url && spec.createTime > 0
+    );
+    if (!spec || spec.paused) {
+      return;
+    }
+
+    spec.paused = true;
+    await this.store.write(this.keyFromId(spec.id), spec);
+
+    const task = this.tasks.find(task => task.id === spec.id);
+
+    task?.pause();
+    this.pendingSpecs = this.pendingSpecs.filter(pending => pending !== spec);
+    if (this.spaceWaiterIds.delete(spec.id)) {
+      this.scheduleSpaceCheck();
+    }
+    if (this.startingIds.delete(spec.id) || task) {
+      // Its slot is free for someone else now
+      this.startPending();
+    }
+    this.emit("queueChange", {});
+  }
+
+  /**
+   * Resumes a url paused with pauseUrl(). Its download only proceeds if the
+   * queue as a whole isn't paused too (see pauseAll()), and once it gets a
+   * download slot back.
+   *
+   * @param url Url to resume
+   */
+  async resumeUrl(url: string): Promise<void> {
+    this.verifyInitialized();
+
+    const spec = this.specs.find(
+      spec => spec.url === url && spec.createTime > 0
+    );
+    if (!spec || !spec.paused) {
+      return;
+    }
+
+    spec.paused = false;
+    await this.store.write(this.keyFromId(spec.id), spec);
+
+    if (this.tasks.some(task => task.id === spec.id)) {
+      // Its task waits in line, still paused, until startPending() resumes it
+      this.enqueue(spec);
+      this.startPending();
+    } else if (
+      !spec.finished &&
+      !spec.gaveUp &&
+      !this.retryTimes.has(spec.id)
+    ) {
+      this.start(spec);
+    }
+    this.emit("queueChange", {});
+  }
+
+  /**
+   * Gets a remote or local url, preferring to the local path when possible. If
+   * the local file hasn't yet been downloaded, returns the remote url. Also
+   * returns the remote url if the record is being lazy-deleted.
+   * @param url The remote URL to check for local availability
+   * @returns A local file path if the URL has already been downloaded, else url
+   */
+  async getAvailableUrl(url: string): Promise<string> {
+    this.verifyInitialized();
+
+    const spec = this.specs.find(spec => spec.url === url);
 
     if (!spec || !spec.finished || spec.createTime <= 0) {
       return url;
     }
 
     const fileExists = await RNFS.exists(spec.path);
-    return fileExists ? spec.path : url;
+
+    if (!fileExists) {
+      return url;
+    }
+
+    spec.lastAccessTime = Date.now();
+    if (this.maxStorageBytes < Infinity) {
+      // Not awaited, since callers generally need the path right away. Losing
+      // an access time now and then is harmless.
+      void this.store.write(this.keyFromId(spec.id), spec);
+    }
+    return spec.path;
+  }
+
+  /**
+   * Asks the server whether a finished url's file has changed since it was
+   * downloaded, using the ETag and Last-Modified headers it sent back then. If
+   * it has, the new version is downloaded alongside the old one, which keeps
+   * being served by getAvailableUrl() until the new one replaces it.
+   *
+   * @param url Url whose file to check
+   * @returns true if the file was replaced with a newer version, or false if
+   * it was unchanged (or the url isn't finished downloading)
+   */
+  async revalidate(url: string): Promise<boolean> {
+    this.verifyInitialized();
+
+    const spec = this.specs.find(spec => spec.url === url);
+
+    if (!spec || !spec.finished || spec.createTime <= 0) {
+      return false;
+    }
+    return await this.revalidateSpec(spec);
+  }
+
+  /**
+   * Asks the server, with a HEAD request, about a url's file before it's
+   * downloaded: how big it is, what type it is, and where the url redirects
+   * to. The url needn't be in the queue. If it is, and hasn't finished
+   * downloading, what's learned is kept with it.
+   *
+   * @param url Remote url to ask about
+   * @param headers (optional) HTTP headers to send, along with any from
+   * `getHeaders`. Defaults to the ones the url was added with, if any.
+   * @returns What the server said
+   */
+  async probe(
+    url: string,
+    headers?: DownloadQueueHeaders
+  ): Promise<DownloadQueueProbeResult> {
+    this.verifyInitialized();
+
+    const spec = this.specs.find(spec => spec.url === url);
+    const result = await this.doProbe(url, headers ?? spec?.headers);
+
+    // Once downloaded, the file's validators must stay the ones it came with,
+    // or revalidate() couldn't tell whether it's changed.
+    if (spec && !spec.finished && this.specs.includes(spec)) {
+      Object.assign(spec, probedFields(result));
+      await this.store.write(this.keyFromId(spec.id), spec);
+    }
+    return result;
   }
 
   private removeTask(id: string): DownloadTask | undefined {
@@ -660,18 +2414,35 @@ export default class DownloadQueue {
     if (taskIndex >= 0) {
       task = this.tasks[taskIndex];
       this.tasks.splice(taskIndex, 1);
+      // Without its task, it'd be started from scratch if it stayed in line
+      this.pendingSpecs = this.pendingSpecs.filter(spec => spec.id !== id);
     }
+    this.networkBlockedIds.delete(id);
+    this.lastProgress.delete(id);
 
-    this.erroredIds.delete(id);
-    if (this.erroredIds.size === 0 && this.errorTimer) {
-      clearInterval(this.errorTimer);
-      this.errorTimer = null;
+    if (this.retryTimes.delete(id)) {
+      this.scheduleRetryTimer();
     }
     return task;
   }
 
+  /**
+   * Starts downloading a spec if there's a free download slot, or if it
+   * outranks a running download. Otherwise, the spec waits in `pendingSpecs`
+   * until `startPending` lets it through. Specs paused with pauseUrl() aren't
+   * started at all.
+   */
   private start(spec: Spec) {
-    const path = this.pathFromId(spec.id, this.extensionFromUri(spec.url));
+    if (spec.paused) {
+      // resumeUrl() will start it
+      return;
+    }
+    this.enqueue(spec);
+    this.startPending();
+  }
+
+  private async startTask(spec: Spec) {
+    const path = this.pathOf(spec);
 
     // This can happen in cases where you install a new build over an old one.
     // The old home directory is gone, and yet you have a bunch of specs that
@@ -681,13 +2452,80 @@ export default class DownloadQueue {
       // We're playing a little fast and loose here, not awaiting the write, to
       // simplify expectations of callers who classically expected a synchronous
       // function. In theory, failing this silently async is harmless.
-      void this.kvfs.write(this.keyFromId(spec.id), spec);
+      void this.store.write(this.keyFromId(spec.id), spec);
+    }
+
+    // Hold on to the download slot while we wait on anything below, so that
+    // startPending() doesn't give it to someone else.
+    this.startingIds.add(spec.id);
+
+    if (spec.storageClass === "cache") {
+      try {
+        // The OS may have purged the whole directory, not just our files
+        await RNFS.mkdir(this.getDomainedBasePath("cache"));
+      } catch {
+        // The download will fail too, and be retried like any other failure
+      }
+      if (!this.startingIds.has(spec.id)) {
+        // The url was removed (or the queue terminated) while we waited
+        return;
+      }
+    }
+
+    let headers = spec.headers;
+
+    if (this.getHeaders || this.storageReserveBytes !== undefined) {
+      let shortfall: { requiredBytes: number; freeBytes: number } | undefined;
+      try {
+        shortfall = await this.checkFreeSpace(spec);
+        if (!shortfall && this.getHeaders) {
+          headers = { ...headers, ...(await this.getHeaders(spec.url)) };
+        }
+      } catch (nativeError) {
+        if (this.startingIds.delete(spec.id)) {
+          this.startPending();
+          const error = this.toQueueError(
+            new DownloadQueueError(
+              `Couldn't get headers: ${String(nativeError)}`,
+              "unknown",
+              nativeError
+            )
+          );
+
+          this.emit("error", { url: spec.url, error, metadata: spec.metadata });
+          await this.recordFailure(spec, error);
+        }
+        return;
+      }
+      if (!this.startingIds.delete(spec.id)) {
+        // The url was removed (or the queue terminated) while we waited
+        return;
+      }
+      if (shortfall) {
+        this.startPending();
+        if (!this.spaceWaiterIds.has(spec.id)) {
+          this.spaceWaiterIds.add(spec.id);
+          this.emit("insufficientStorage", {
+            url: spec.url,
+            requiredBytes: shortfall.requiredBytes,
+            freeBytes: shortfall.freeBytes,
+            metadata: spec.metadata,
+          });
+        }
+        this.scheduleSpaceCheck();
+        return;
+      }
+      if (this.spaceWaiterIds.delete(spec.id)) {
+        this.scheduleSpaceCheck();
+      }
     }
+    this.startingIds.delete(spec.id);
 
     const task = download({
       id: spec.id,
       url: spec.url,
-      destination: spec.path,
+      destination: partialPathOf(spec),
+      headers,
     });
 
     this.addTask(spec.url, task);
@@ -701,6 +2539,64 @@ export default class DownloadQueue {
     // }
   }
 
+  /**
+   * Checks whether the device has room for a spec's download plus
+   * `storageReserveBytes`.
+   * @returns how much space is needed and free, if there isn't enough
+   */
+  private async checkFreeSpace(
+    spec: Spec
+  ): Promise<{ requiredBytes: number; freeBytes: number } | undefined> {
+    if (this.storageReserveBytes === undefined) {
+      return undefined;
+    }
+
+    let freeBytes: number;
+    try {
+      freeBytes = (await RNFS.getFSInfo()).freeSpace;
+    } catch {
+      // Better to try the download and maybe fail than to never try at all
+      return undefined;
+    }
+
+    const requiredBytes =
+      (spec.expectedBytes ?? spec.totalBytes ?? spec.contentLength ?? 0) +
+      this.storageReserveBytes;
+
+    return freeBytes < requiredBytes ? { requiredBytes, freeBytes } : undefined;
+  }
+
+  private scheduleSpaceCheck() {
+    if (this.spaceWaiterIds.size === 0) {
+      if (this.spaceTimer) {
+        clearTimeout(this.spaceTimer);
+        this.spaceTimer = null;
+      }
+      return;
+    }
+    if (!this.spaceTimer) {
+      this.spaceTimer = setTimeout(() => {
+        this.spaceTimer = null;
+        this.startWaitingForSpace();
+      }, STORAGE_RECHECK_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Gives downloads that were held for lack of free space another go. Those
+   * that still don't fit go right back to waiting.
+   */
+  private startWaitingForSpace() {
+    this.specs
+      .filter(
+        spec =>
+          this.spaceWaiterIds.has(spec.id) &&
+          !this.pendingSpecs.includes(spec) &&
+          !this.startingIds.has(spec.id)
+      )
+      .forEach(spec => this.start(spec));
+  }
+
   /**
    * Sets the types of networks which you want downloads to occur on.
    * @param types The network types to allow downloads on. These should come
@@ -728,95 +2624,696 @@ export default class DownloadQueue {
     }
   }
 
-  private addTask(url: string, task: DownloadTask) {
-    task
-      .begin(data => {
-        // The task may have been removed (e.g. via removeUrl) before a trailing
-        // begin callback already queued on the JS bridge fires. Like doDone, we
-        // no-op so we don't notify clients about a download that's gone.
-        if (!this.tasks.some(t => t.id === task.id)) {
-          return;
-        }
-        // Bug: https://github.com/kesha-antonov/react-native-background-downloader/issues/23
-        // Basically the downloader doesn't respect the pause() if we call it
-        // right after download(). So we end up having to pause only after the
-        // download sends us this begin() callback. When #23 is fixed, we can
-        // in theory move this into the end of start(), after download().
-        if (!this.active) {
-          task.pause();
-        }
-        this.handlers?.onBegin?.(url, data.expectedBytes);
-      })
-      .progress(({ bytesDownloaded, bytesTotal }) => {
-        // See note in begin() above: a trailing progress callback can fire after
-        // the task has been removed, so we no-op to avoid re-notifying clients.
-        if (!this.tasks.some(t => t.id === task.id)) {
-          return;
-        }
-        // Bug: https://github.com/kesha-antonov/react-native-background-downloader/issues/23
-        // See note in begin() above. We can get progress callbacks even without
-        // begin() (e.g. in the case of resuming a background task upon launch).
-        if (!this.active) {
-          task.pause();
-        }
-        const fraction = bytesDownloaded / bytesTotal;
-        this.handlers?.onProgress?.(url, fraction, bytesDownloaded, bytesTotal);
-      })
-      // eslint-disable-next-line @typescript-eslint/no-misused-promises
-      .done(async () => await this.doDone(url, task))
-      .error(error => {
-        this.removeTask(task.id);
-        this.handlers?.onError?.(url, error);
+  private addTask(url: string, task: DownloadTask) {
+    task
+      .begin(data => {
+        // The task may have been removed (e.g. via removeUrl) before a trailing
+        // begin callback already queued on the JS bridge fires. Like doDone, we
+        // no-op so we don't notify clients about a download that's gone.
+        if (!this.tasks.some(t => t.id === task.id)) {
+          return;
+        }
+        // Bug: https://github.com/kesha-antonov/react-native-background-downloader/issues/23
+        // Basically the downloader doesn't respect the pause() if we call it
+        // right after download(). So we end up having to pause only after the
+        // download sends us this begin() callback. When #23 is fixed, we can
+        // in theory move this into the end of start(), after download().
+        const spec = this.specs.find(spec => spec.id === task.id);
+        if (spec) {
+          // Set first, since it can decide whether cellular is allowed
+          spec.totalBytes = data.expectedBytes;
+          // Saved along with the rest of the spec once the download's done
+          Object.assign(spec, validatorsFrom(headerGetter(data.headers)));
+        }
+        if (!this.shouldTaskRun(task.id)) {
+          task.pause();
+          // If it's the network holding it back, its slot's free now
+          this.startPending();
+        }
+        this.emit("begin", {
+          url,
+          totalBytes: data.expectedBytes,
+          metadata: spec?.metadata,
+        });
+      })
+      .progress(({ bytesDownloaded, bytesTotal }) => {
+        // See note in begin() above: a trailing progress callback can fire after
+        // the task has been removed, so we no-op to avoid re-notifying clients.
+        if (!this.tasks.some(t => t.id === task.id)) {
+          return;
+        }
+        // Bug: https://github.com/kesha-antonov/react-native-background-downloader/issues/23
+        // See note in begin() above. We can get progress callbacks even without
+        // begin() (e.g. in the case of resuming a background task upon launch).
+        if (!this.shouldTaskRun(task.id)) {
+          task.pause();
+          // If it's the network holding it back, its slot's free now
+          this.startPending();
+        }
+        const spec = this.specs.find(spec => spec.id === task.id);
+        if (spec) {
+          this.recordThroughput(bytesDownloaded - (spec.bytesDownloaded ?? 0));
+          spec.bytesDownloaded = bytesDownloaded;
+          spec.totalBytes = bytesTotal;
+        }
+        const fraction = bytesDownloaded / bytesTotal;
+        if (!this.shouldReportProgress(task.id, fraction)) {
+          return;
+        }
+        const update = {
+          url,
+          fractionWritten: fraction,
+          bytesWritten: bytesDownloaded,
+          totalBytes: bytesTotal,
+          metadata: spec?.metadata,
+        };
+        this.emit("progress", update);
+        this.batchProgress(update);
+        this.emitQueueProgress();
+      })
+      // eslint-disable-next-line @typescript-eslint/no-misused-promises
+      .done(async () => await this.doDone(url, task))
+      .error(nativeError => {
+        const spec = this.specs.find(spec => spec.id === task.id);
+        const error = this.toQueueError(nativeError);
+
+        this.removeTask(task.id);
+        this.startPending();
+        this.emit("error", { url, error, metadata: spec?.metadata });
+
+        // Trailing errors can arrive for downloads that have since finished or
+        // been removed. Those shouldn't count against anything.
+        if (spec && !spec.finished && spec.createTime > 0) {
+          void this.recordFailure(spec, error);
+        }
+      });
+    this.tasks.push(task);
+  }
+
+  private async doDone(url: string, task: DownloadTask) {
+    const spec = this.specs.find(spec => spec.url === url);
+
+    if (!spec) {
+      // This in theory shouldn't ever happen -- basically the downloader
+      // telling us it's completed the download of a spec we've never heard
+      // about. But we're being extra careful here not to crash the client
+      // app if this ever happens.
+      return;
+    }
+
+    this.removeTask(task.id);
+    this.startPending();
+
+    // It's only at path once it's whole, so nothing can read it half-written
+    const integrityError =
+      (await this.movePartialIntoPlace(spec)) ?? (await this.verifyFile(spec));
+
+    if (integrityError) {
+      await this.rejectFile(spec, integrityError);
+    } else {
+      spec.finished = true;
+      spec.failedAttempts = 0;
+      spec.sizeBytes = await this.fileSize(spec.path);
+      spec.totalBytes = spec.sizeBytes;
+      spec.bytesDownloaded = spec.sizeBytes;
+      spec.lastAccessTime = Date.now();
+      spec.finishTime = spec.lastAccessTime;
+      this.lastErrors.delete(spec.id);
+      await this.store.write(this.keyFromId(spec.id), spec);
+    }
+
+    if (Platform.OS === "ios") {
+      completeHandler(task.id);
+    }
+
+    // Only notify the client once everything has completed successfully and
+    // our internal state is consistent.
+    if (!integrityError) {
+      this.emit("done", { url, localPath: spec.path, metadata: spec.metadata });
+      this.emitQueueProgress();
+      this.emitIfDrained();
+      await this.enforceStorageLimit();
+    }
+  }
+
+  /**
+   * Removes the least recently used urls that aren't pinned until finished
+   * downloads fit in `maxStorageBytes`. Checks run one at a time, so that
+   * overlapping ones don't try to remove the same urls. Urls that fail to be
+   * removed (e.g. because onWillRemove threw) are reported as errors, rather
+   * than failing whatever finished or pinned a url.
+   */
+  private enforceStorageLimit(): Promise<void> {
+    this.storageCheck = this.storageCheck.then(() => this.evictOverLimit());
+    return this.storageCheck;
+  }
+
+  private async evictOverLimit() {
+    if (this.maxStorageBytes === Infinity) {
+      return;
+    }
+
+    const finished = this.specs.filter(
+      spec => spec.finished && spec.createTime > 0
+    );
+
+    await Promise.all(
+      finished
+        .filter(spec => spec.sizeBytes === undefined)
+        .map(async spec => {
+          spec.sizeBytes = await this.fileSize(spec.path);
+        })
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    let totalBytes = finished.reduce((sum, spec) => sum + spec.sizeBytes!, 0);
+    const evictable = finished
+      .filter(spec => !spec.pinned)
+      .sort((a, b) => (a.lastAccessTime ?? 0) - (b.lastAccessTime ?? 0));
+
+    for (const spec of evictable) {
+      if (totalBytes <= this.maxStorageBytes) {
+        break;
+      }
+      try {
+        await this.removeUrlsInternal([spec.url], -1);
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        totalBytes -= spec.sizeBytes!;
+      } catch (nativeError) {
+        // Moves on to the next url, which may free up the space instead
+        this.emitError(spec, "Couldn't evict", nativeError);
+      }
+    }
+  }
+
+  private async fileSize(path: string): Promise<number> {
+    try {
+      return (await RNFS.stat(path)).size;
+    } catch {
+      return 0; // Missing files don't take up any space
+    }
+  }
+
+  /**
+   * Checks a downloaded file against the spec's `expectedBytes` and
+   * `expectedHash`, if it has them.
+   * @returns an "integrity" error if the file doesn't match, else undefined
+   */
+  private async verifyFile(
+    spec: Spec
+  ): Promise<DownloadQueueError | undefined> {
+    try {
+      if (spec.expectedBytes !== undefined) {
+        const { size } = await RNFS.stat(spec.path);
+
+        if (size !== spec.expectedBytes) {
+          return this.toQueueError(
+            new DownloadQueueError(
+              `Expected ${spec.expectedBytes} bytes but got ${size}`,
+              "integrity",
+              undefined
+            )
+          );
+        }
+      }
+      if (spec.expectedHash !== undefined) {
+        const algorithm = spec.hashAlgorithm ?? "sha256";
+        const hash = await RNFS.hash(spec.path, algorithm);
+
+        if (hash.toLowerCase() !== spec.expectedHash.toLowerCase()) {
+          return this.toQueueError(
+            new DownloadQueueError(
+              `Expected ${algorithm} ${spec.expectedHash} but got ${hash}`,
+              "integrity",
+              undefined
+            )
+          );
+        }
+      }
+    } catch (error) {
+      return this.toQueueError(
+        new DownloadQueueError(
+          `Couldn't verify downloaded file: ${String(error)}`,
+          "integrity",
+          error
+        )
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Moves a finished download from where it was downloaded to its spec's path.
+   * @returns an error if it couldn't be moved, else undefined
+   */
+  private async movePartialIntoPlace(
+    spec: Spec
+  ): Promise<DownloadQueueError | undefined> {
+    const partialPath = partialPathOf(spec);
+
+    try {
+      if (await RNFS.exists(partialPath)) {
+        // iOS won't move a file over another
+        if (await RNFS.exists(spec.path)) {
+          await RNFS.unlink(spec.path);
+        }
+      } else if (await RNFS.exists(spec.path)) {
+        // Tasks started by older versions of this library download straight to
+        // path, so there's nothing to move.
+        return undefined;
+      }
+      await RNFS.moveFile(partialPath, spec.path);
+    } catch (nativeError) {
+      return this.toQueueError(
+        new DownloadQueueError(
+          `Couldn't move the download into place: ${String(nativeError)}`,
+          "unknown",
+          nativeError
+        )
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Throws away a downloaded file that failed verification, and treats it like
+   * any other failed download.
+   */
+  private async rejectFile(spec: Spec, error: DownloadQueueError) {
+    try {
+      await RNFS.unlink(spec.path);
+    } catch {
+      // Ignore errors, e.g. if the file was never there
+    }
+    this.emit("error", { url: spec.url, error, metadata: spec.metadata });
+    await this.recordFailure(spec, error);
+  }
+
+  /**
+   * Saves specs to storage, all in one store call when there's more than one,
+   * since each AsyncStorage call is slow on Android.
+   */
+  private async writeSpecs(specs: Spec[]) {
+    if (specs.length === 1) {
+      await this.store.write(this.keyFromId(specs[0].id), specs[0]);
+    } else {
+      await this.store.writeMulti(
+        specs.map(spec => ({ key: this.keyFromId(spec.id), value: spec }))
+      );
+    }
+  }
+
+  private setListeners<E extends DownloadQueueEventName>(
+    event: E,
+    listeners: DownloadQueueListener<E>[]
+  ) {
+    this.listeners[event] = listeners as DownloadQueueListeners[E];
+  }
+
+  /**
+   * Calls everyone listening for `event`, in the order they started listening.
+   * A listener that throws keeps neither the others nor our own bookkeeping
+   * from going ahead.
+   * @returns the promises any listeners returned (e.g. for "willRemove")
+   */
+  private emit<E extends DownloadQueueEventName>(
+    event: E,
+    payload: DownloadQueueEvents[E]
+  ): Promise<unknown>[] {
+    const promises: Promise<unknown>[] = [];
+
+    for (const listener of this.listeners[event]) {
+      try {
+        const result: unknown = listener(payload);
+
+        if (result instanceof Promise) {
+          promises.push(result);
+        }
+      } catch {
+        // That's for the listener to deal with. Everyone else still needs to
+        // hear about the event.
+      }
+    }
+    return promises;
+  }
+
+  private recordThroughput(bytes: number) {
+    // Downloads that restart from scratch report less than before
+    if (bytes > 0) {
+      this.throughputSamples.push({ time: Date.now(), bytes });
+    }
+  }
+
+  /**
+   * The download rate over the last THROUGHPUT_WINDOW_MS. The oldest sample
+   * in the window only marks when we started counting, since its bytes were
+   * downloaded before then.
+   */
+  private bytesPerSecond() {
+    const now = Date.now();
+
+    this.throughputSamples = this.throughputSamples.filter(
+      sample => now - sample.time <= THROUGHPUT_WINDOW_MS
+    );
+    if (this.throughputSamples.length < 2) {
+      return 0;
+    }
+
+    const [first, ...rest] = this.throughputSamples;
+    const bytes = rest.reduce((sum, sample) => sum + sample.bytes, 0);
+
+    return (bytes / Math.max(now - first.time, 1)) * 1000;
+  }
+
+  /**
+   * Throttles a task's progress reports according to `minProgressIntervalMs`
+   * and `minProgressDelta`. The first report, and the one for the download
+   * being complete, always go through.
+   */
+  private shouldReportProgress(id: string, fraction: number) {
+    const now = Date.now();
+    const last = this.lastProgress.get(id);
+
+    if (
+      last &&
+      fraction < 1 &&
+      (now - last.time < this.minProgressIntervalMs ||
+        Math.abs(fraction - last.fraction) < this.minProgressDelta)
+    ) {
+      return false;
+    }
+    this.lastProgress.set(id, { time: now, fraction });
+    return true;
+  }
+
+  /**
+   * Collects progress to send to "progressBatch" listeners all at once, after
+   * whatever else the native downloader is reporting right now.
+   */
+  private batchProgress(update: DownloadQueueProgressUpdate) {
+    if (!this.progressBatch.size) {
+      void Promise.resolve().then(() => {
+        const updates = [...this.progressBatch.values()];
+
+        this.progressBatch.clear();
+        if (updates.length) {
+          this.emit("progressBatch", { updates });
+        }
+      });
+    }
+    // Only the latest progress of each url matters
+    this.progressBatch.set(update.url, update);
+  }
+
+  private emitQueueProgress() {
+    // Tallying the whole queue on every progress report isn't free
+    if (this.listeners.queueProgress.length) {
+      this.emit("queueProgress", this.getAggregateProgress());
+    }
+  }
+
+  /**
+   * Should be called when a url stops needing to be downloaded, so we can tell
+   * listeners if it was the last one.
+   */
+  private emitIfDrained() {
+    if (!this.specs.some(isSpecDownloadable)) {
+      this.emit("queueDrained", {});
+    }
+  }
+
+  private isSpecPaused(id: string) {
+    return this.specs.some(spec => spec.id === id && spec.paused);
+  }
+
+  /**
+   * Whether a task should be downloading right now, as opposed to paused by
+   * the client or held back by the network. Marks tasks the network holds
+   * back, so that applyNetworkPolicy() knows to resume them later.
+   */
+  private shouldTaskRun(id: string) {
+    if (!this.networkSuits(this.specs.find(spec => spec.id === id))) {
+      this.networkBlockedIds.add(id);
+      return false;
+    }
+    return this.active && this.holdsSlot(id);
+  }
+
+  /**
+   * Whether the current network suits a spec, per its `allowedNetworkTypes`
+   * (or else the queue's `activeNetworkTypes`) and `maxCellularBytes`, along
+   * with the queue's other network conditions and `isNetworkAllowed`. Being
+   * offline isn't considered here, since that pauses the whole queue. Specs we
+   * can't find get the queue's defaults.
+   */
+  private networkSuits(spec?: Spec) {
+    const state = this.networkState;
+
+    if (!state?.isConnected) {
+      return true;
+    }
+
+    const types = spec?.allowedNetworkTypes ?? this.activeNetworkTypes;
+
+    if (types.length > 0 && !types.includes(state.type)) {
+      return false;
+    }
+    if (
+      this.pauseOnExpensiveConnections &&
+      state.details?.isConnectionExpensive
+    ) {
+      return false;
+    }
+
+    const generation = state.details?.cellularGeneration;
+
+    if (
+      generation &&
+      this.allowedCellularGenerations.length > 0 &&
+      !this.allowedCellularGenerations.includes(generation)
+    ) {
+      return false;
+    }
+    if (!spec) {
+      return true;
+    }
+    if (
+      state.type === "cellular" &&
+      (spec.totalBytes ?? spec.expectedBytes ?? spec.contentLength ?? 0) >
+        (spec.maxCellularBytes ?? Infinity)
+    ) {
+      return false;
+    }
+    return this.isNetworkAllowed?.(state, spec.url) ?? true;
+  }
+
+  /**
+   * Whether a task counts against `maxConcurrentDownloads`. Tasks paused with
+   * pauseUrl() or held back by the network don't, nor do those waiting in
+   * `pendingSpecs` to be resumed.
+   */
+  private holdsSlot(id: string) {
+    return (
+      !this.isSpecPaused(id) &&
+      !this.networkBlockedIds.has(id) &&
+      !this.pendingSpecs.some(pending => pending.id === id)
+    );
+  }
+
+  private hasFreeSlot() {
+    const running = this.tasks.filter(task => this.holdsSlot(task.id));
+
+    return running.length + this.startingIds.size < this.maxConcurrentDownloads;
+  }
+
+  /**
+   * Puts a spec in line for a download slot, behind everything with the same
+   * or higher priority.
+   */
+  private enqueue(spec: Spec) {
+    const index = this.pendingSpecs.findIndex(
+      pending => pending.priority < spec.priority
+    );
+
+    if (index < 0) {
+      this.pendingSpecs.push(spec);
+    } else {
+      this.pendingSpecs.splice(index, 0, spec);
+    }
+  }
+
+  /**
+   * Re-inserts any of `specs` that are waiting for a slot, so the line stays
+   * sorted after their priorities changed.
+   */
+  private reenqueue(specs: Spec[]) {
+    const moved = specs.filter(spec => this.pendingSpecs.includes(spec));
+
+    this.pendingSpecs = this.pendingSpecs.filter(
+      pending => !moved.includes(pending)
+    );
+    moved.forEach(spec => this.enqueue(spec));
+  }
+
+  /**
+   * Starts as many waiting specs as there are free slots, resuming those that
+   * already have (paused) tasks. Specs the network doesn't suit keep their
+   * place in line without taking a slot. This should be called whenever a
+   * slot might have freed up, the line might have been reordered or the
+   * network's changed.
+   */
+  private startPending() {
+    let index = 0;
+
+    while (index < this.pendingSpecs.length) {
+      const spec = this.pendingSpecs[index];
+
+      if (!this.networkSuits(spec)) {
+        index++;
+        continue;
+      }
+      if (!this.hasFreeSlot() && !this.preemptFor(spec)) {
+        break;
+      }
+      // Preempted downloads go back in line behind this one, so it's still here
+      this.pendingSpecs.splice(index, 1);
+
+      const task = this.tasks.find(task => task.id === spec.id);
+
+      if (!task) {
+        void this.startTask(spec);
+      } else if (this.shouldTaskRun(spec.id)) {
+        task.resume();
+      }
+    }
+  }
+
+  /**
+   * Stops the lowest-priority running download, if it's lower than `spec`'s,
+   * and puts it back in line.
+   * @returns true if a slot was freed up
+   */
+  private preemptFor(spec: Spec): boolean {
+    const victim = this.specs
+      // Downloads without slots would just lose their progress, freeing up
+      // nothing
+      .filter(
+        running =>
+          this.holdsSlot(running.id) &&
+          this.tasks.some(task => task.id === running.id)
+      )
+      .reduce<Spec | undefined>(
+        (lowest, running) =>
+          running.priority < (lowest?.priority ?? spec.priority)
+            ? running
+            : lowest,
+        undefined
+      );
+
+    if (!victim) {
+      return false;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    this.removeTask(victim.id)!.stop();
+    this.enqueue(victim);
+    return true;
+  }
+
+  /**
+   * Reports failures of the queue's own upkeep (e.g. evictions), which have no
+   * caller to reject, through the "error" event.
+   */
+  private emitError(spec: Spec, message: string, nativeError: unknown) {
+    const error = new DownloadQueueError(
+      `${message}: ${String(nativeError)}`,
+      "unknown",
+      nativeError
+    );
 
-        this.erroredIds.add(task.id);
-        this.ensureErrorTimerOn();
-      });
-    this.tasks.push(task);
+    this.emit("error", { url: spec.url, error, metadata: spec.metadata });
   }
 
-  private async doDone(url: string, task: DownloadTask) {
-    const spec = this.specs.find(spec => spec.url === url);
+  private toQueueError(nativeError: unknown): DownloadQueueError {
+    const error =
+      nativeError instanceof DownloadQueueError
+        ? nativeError
+        : parseDownloadError(nativeError);
 
-    if (!spec) {
-      // This in theory shouldn't ever happen -- basically the downloader
-      // telling us it's completed the download of a spec we've never heard
-      // about. But we're being extra careful here not to crash the client
-      // app if this ever happens.
-      return;
-    }
+    error.retryable = this.isErrorRetryable(error);
+    return error;
+  }
 
-    this.removeTask(task.id);
-    spec.finished = true;
-    await this.kvfs.write(this.keyFromId(spec.id), spec);
+  /**
+   * Counts a failed download attempt against the retry policy, and either
+   * schedules a retry or gives up on the spec.
+   */
+  private async recordFailure(spec: Spec, error: DownloadQueueError) {
+    this.lastErrors.set(spec.id, error);
+    spec.failedAttempts += 1;
+    if (
+      !error.retryable ||
+      spec.failedAttempts >= this.retryPolicy.maxAttempts
+    ) {
+      spec.gaveUp = true;
+    } else {
+      this.retryTimes.set(
+        spec.id,
+        Date.now() + this.retryDelay(spec.failedAttempts)
+      );
+      this.scheduleRetryTimer();
+    }
+    await this.store.write(this.keyFromId(spec.id), spec);
 
-    if (Platform.OS === "ios") {
-      completeHandler(task.id);
+    if (spec.gaveUp) {
+      this.emit("giveUp", { url: spec.url, error, metadata: spec.metadata });
+      this.emitIfDrained();
     }
+  }
 
-    // Only notify the client once everything has completed successfully and
-    // our internal state is consistent.
-    this.handlers?.onDone?.(url, spec.path);
+  private retryDelay(failedAttempts: number) {
+    const { initialDelayMs, multiplier, jitter, maxDelayMs } = this.retryPolicy;
+    const delay = Math.min(
+      initialDelayMs * Math.pow(multiplier, failedAttempts - 1),
+      maxDelayMs
+    );
+
+    return delay * (1 + jitter * (2 * Math.random() - 1));
   }
 
-  private ensureErrorTimerOn() {
-    if (!this.errorTimer) {
-      this.errorTimer = setInterval(() => {
-        this.retryErroredTasks();
-      }, ERROR_RETRY_DELAY_MS);
+  /**
+   * Makes sure there's exactly one timer, due at the earliest scheduled retry,
+   * if there are any retries and we're active. Call this whenever retryTimes
+   * or the active state changes.
+   */
+  private scheduleRetryTimer() {
+    if (this.errorTimer) {
+      clearTimeout(this.errorTimer);
+      this.errorTimer = null;
     }
+    if (!this.active || this.retryTimes.size === 0) {
+      return;
+    }
+
+    const nextRetryTime = Math.min(...this.retryTimes.values());
+
+    this.errorTimer = setTimeout(() => {
+      this.errorTimer = null;
+      this.retryErroredTasks();
+    }, Math.max(nextRetryTime - Date.now(), 0));
   }
 
   private retryErroredTasks() {
-    this.erroredIds.forEach(id => {
-      const task = this.tasks.find(task => task.id === id);
-      const spec = this.specs.find(spec => spec.id === id);
+    const now = Date.now();
+    const dueSpecs = this.specs.filter(
+      spec => (this.retryTimes.get(spec.id) ?? Infinity) <= now
+    );
 
-      // If we've written our code correctly, spec should always be present
-      // if we have an errorId. But we're being extra paranoid here.
-      if (!task && spec && !spec.finished && spec.createTime > 0) {
-        this.start(spec);
-      }
+    dueSpecs.forEach(spec => {
+      this.retryTimes.delete(spec.id);
+      this.start(spec);
     });
+    this.scheduleRetryTimer();
   }
 
   private scheduleDeletions(toDelete: Spec[], basisTimestamp: number) {
@@ -844,25 +3341,27 @@ export default class DownloadQueue {
     );
     const delIds = new Set(toDelete.map(spec => spec.id));
 
-    await Promise.all(
-      toDelete.map(async spec => {
-        await this.kvfs.rm(this.keyFromId(spec.id));
-        try {
-          await RNFS.unlink(spec.path);
-        } catch {
-          // Expected for missing files
-        }
-      })
-    );
+    await this.store.removeMulti(toDelete.map(spec => this.keyFromId(spec.id)));
+    await Promise.all(toDelete.map(unlinkSpecFiles));
     this.specs = this.specs.filter(spec => !delIds.has(spec.id));
+    delIds.forEach(id => this.lastErrors.delete(id));
+    this.startWaitingForSpace();
   }
 
   private onNetInfoChanged(state: DownloadQueueNetInfoState) {
+    // Being offline (or, with `requireInternetReachable`, not reaching the
+    // internet) pauses everything. Which types of networks are allowed
+    // varies by url, so that's left to applyNetworkPolicy(), which goes first
+    // so that resuming below knows which urls to leave paused. While offline,
+    // we keep the policy as it was, since there's no network to judge.
     const shouldAutoPause =
       !state.isConnected ||
-      (this.activeNetworkTypes.length > 0 &&
-        !this.activeNetworkTypes.includes(state.type));
+      (this.requireInternetReachable && state.isInternetReachable !== true);
 
+    this.networkState = state;
+    if (!shouldAutoPause) {
+      this.applyNetworkPolicy();
+    }
     if (shouldAutoPause === this.wouldAutoPause) {
       return;
     }
@@ -879,6 +3378,40 @@ export default class DownloadQueue {
     }
   }
 
+  /**
+   * Pauses tasks whose urls the current network no longer suits, giving up
+   * their slots, and puts those it newly suits (unless they're otherwise
+   * paused) back in line for one. Then hands out whatever slots are free.
+   */
+  private applyNetworkPolicy() {
+    this.tasks.forEach(task => {
+      const spec = this.specs.find(spec => spec.id === task.id);
+      const blocked = !this.networkSuits(spec);
+
+      if (blocked === this.networkBlockedIds.has(task.id)) {
+        return;
+      }
+      if (blocked) {
+        this.networkBlockedIds.add(task.id);
+        if (this.active && !this.isSpecPaused(task.id)) {
+          task.pause();
+        }
+      } else {
+        this.networkBlockedIds.delete(task.id);
+        if (!spec) {
+          // Without a spec, it has no place in line to wait in
+          if (this.active) {
+            task.resume();
+          }
+        } else if (!spec.paused && !this.pendingSpecs.includes(spec)) {
+          // Tasks that are otherwise paused stay that way
+          this.enqueue(spec);
+        }
+      }
+    });
+    this.startPending();
+  }
+
   private async reviveTask(task: DownloadTask) {
     const spec = this.specs.find(spec => spec.id === task.id);
 
@@ -890,52 +3423,85 @@ export default class DownloadQueue {
     // progress.
     if (spec && !spec.finished && spec.createTime > 0) {
       let shouldAddTask = true;
+      let shouldStart = false;
+
+      spec.bytesDownloaded = task.bytesDownloaded;
+      spec.totalBytes = task.bytesTotal;
 
       switch (task.state) {
         case "DOWNLOADING":
           // Since we're already downloading, make sure the client at least
           // gets a notification that it's started.
-          this.handlers?.onBegin?.(spec.url, task.bytesTotal);
+          this.emit("begin", {
+            url: spec.url,
+            totalBytes: task.bytesTotal,
+            metadata: spec.metadata,
+          });
           break;
         case "PAUSED":
-          this.handlers?.onBegin?.(spec.url, task.bytesTotal);
+          this.emit("begin", {
+            url: spec.url,
+            totalBytes: task.bytesTotal,
+            metadata: spec.metadata,
+          });
           break;
         case "DONE":
           {
+            // Downloads that finished while we were away haven't been moved
+            // into place yet. Any that fail to move are downloaded again.
+            await this.movePartialIntoPlace(spec);
+
             const exists = await RNFS.exists(spec.path);
 
-            if (exists) {
+            const integrityError = exists
+              ? await this.verifyFile(spec)
+              : undefined;
+
+            if (integrityError) {
+              await this.rejectFile(spec, integrityError);
+              shouldAddTask = false;
+            } else if (exists) {
               spec.finished = true;
-              await this.kvfs.write(this.keyFromId(spec.id), spec);
-              this.handlers?.onBegin?.(spec.url, task.bytesTotal);
-              this.handlers?.onDone?.(spec.url, spec.path);
+              spec.finishTime = Date.now();
+              await this.store.write(this.keyFromId(spec.id), spec);
+              this.emit("begin", {
+                url: spec.url,
+                totalBytes: task.bytesTotal,
+                metadata: spec.metadata,
+              });
+              this.emit("done", {
+                url: spec.url,
+                localPath: spec.path,
+                metadata: spec.metadata,
+              });
               shouldAddTask = false;
             } else {
-              // If the spec thinks we're not done but the OS does, yet we
-              // can't find the file on disk, we'll leave shouldAddTask = true so
-              // that we begin the download again.
-              // Downloader docs say every task needs to be paused or stopped.
-              // So we stop here.
-              task.stop();
               // Since the file is missing from disk, yet the downloader thinks
-              // it's done, we restart the download.
-              this.start(spec);
+              // it's done, we restart the download with a fresh task. The stale
+              // one gets stopped below, as downloader docs say every revived
+              // task needs to be paused or stopped.
+              shouldStart = true;
+              shouldAddTask = false;
             }
           }
           break;
         case "STOPPED":
-          this.start(spec);
+          shouldStart = true;
           shouldAddTask = false;
           break;
         case "FAILED":
         default:
-          this.handlers?.onError?.(
-            spec.url,
-            "unknown error while backgrounded"
-          );
-          this.erroredIds.add(task.id);
-          this.ensureErrorTimerOn();
-          shouldAddTask = false;
+          {
+            const error = this.toQueueError("unknown error while backgrounded");
+
+            this.emit("error", {
+              url: spec.url,
+              error,
+              metadata: spec.metadata,
+            });
+            await this.recordFailure(spec, error);
+            shouldAddTask = false;
+          }
           break;
       }
 
@@ -949,6 +3515,11 @@ export default class DownloadQueue {
         // didn't explicitly stop (!)
         task.stop();
       }
+      // Everything revived waits in line, so that init() can hand out slots by
+      // priority once it's seen all of them. Paused urls wait for resumeUrl().
+      if ((shouldAddTask || shouldStart) && !spec.paused) {
+        this.enqueue(spec);
+      }
     } else {
       if (this.isTaskDownloading(task)) {
         task.stop();
@@ -963,44 +3534,306 @@ export default class DownloadQueue {
       if (spec.finished) {
         if (spec.createTime > 0) {
           // Notify handlers about already-finished specs
-          this.handlers?.onBegin?.(spec.url, task.bytesTotal);
-          this.handlers?.onDone?.(spec.url, spec.path);
+          this.emit("begin", {
+            url: spec.url,
+            totalBytes: task.bytesTotal,
+            metadata: spec.metadata,
+          });
+          this.emit("done", {
+            url: spec.url,
+            localPath: spec.path,
+            metadata: spec.metadata,
+          });
         }
       } else {
-        try {
-          // There might be a partially downloaded file on disk. We need to
-          // get rid of it in case a lazy-delete spec is revived, at which
-          // point an existing file on disk will be taken to be a
-          // successfully downloaded one.
-          await RNFS.unlink(spec.path);
-        } catch {
-          // Expected for missing files
-        }
+        // There might be a partially downloaded file on disk. We need to get
+        // rid of it in case a lazy-delete spec is revived, at which point an
+        // existing file on disk will be taken to be a successfully downloaded
+        // one. Tasks from older versions of this library download straight to
+        // path, so that goes too.
+        await unlinkSpecFiles(spec);
       }
     }
   }
 
   /**
    * Makes sure, if a spec thinks it's finished, that the file which backs it
-   * actually exists. If that file doesn't exist, we set finished === false.
-   * @returns true if spec is finished and the file exists
+   * actually exists (and, with `verify`, still matches what was expected). If
+   * not, we set finished === false.
+   * @returns true iff the spec's file was in the cache and the OS purged it
    */
-  private async reconcileFinishStateWithFile(spec: Spec) {
-    if (spec.finished) {
-      // Once in a while we think the spec is finished but the file isn't
-      // on disk. This can happen when XCode installs a new build, and
-      // sometimes through TestFlight.
-      const exists = await RNFS.exists(spec.path);
+  private async reconcileFinishStateWithFile(
+    spec: Spec,
+    verify = this.verifyOnInit
+  ): Promise<boolean> {
+    if (!spec.finished) {
+      return false;
+    }
 
-      if (exists) {
-        return;
+    // Once in a while we think the spec is finished but the file isn't
+    // on disk. This can happen when XCode installs a new build, and
+    // sometimes through TestFlight.
+    const exists = await RNFS.exists(spec.path);
+
+    if (exists) {
+      if (!verify || !(await this.verifyFile(spec))) {
+        return false;
+      }
+      await RNFS.unlink(spec.path);
+    }
+
+    spec.finished = false; // We're not really finished, it seems.
+    await this.store.write(this.keyFromId(spec.id), spec);
+
+    if (!exists && spec.storageClass === "cache") {
+      this.emit("evicted", { url: spec.url, metadata: spec.metadata });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Looks for finished "cache" files that the OS has purged since we last
+   * looked, and deals with them according to `evictionPolicy`.
+   */
+  private async checkForPurgedFiles() {
+    const cached = this.specs.filter(
+      spec =>
+        spec.storageClass === "cache" && spec.finished && spec.createTime > 0
+    );
+    const purged = await Promise.all(
+      cached.map(spec =>
+        this.reconcileFinishStateWithFile(spec, false).catch(nativeError => {
+          this.emitError(spec, "Couldn't check for a purged file", nativeError);
+          return false;
+        })
+      )
+    );
+    const purgedSpecs = cached.filter((_spec, i) => purged[i]);
+
+    await this.recoverPurgedSpecs(purgedSpecs).catch(nativeError =>
+      purgedSpecs.forEach(spec =>
+        this.emitError(spec, "Couldn't recover a purged file", nativeError)
+      )
+    );
+  }
+
+  /**
+   * Revalidates finished files that haven't been checked for at least
+   * `revalidateAfterMs`. Failures are reported as errors, and retried the next
+   * time.
+   */
+  private async revalidateStaleFiles() {
+    const { revalidateAfterMs } = this;
+
+    if (revalidateAfterMs === undefined) {
+      return;
+    }
+
+    const now = Date.now();
+    const stale = this.specs.filter(
+      spec =>
+        spec.finished &&
+        spec.createTime > 0 &&
+        (spec.revalidateTime ?? spec.finishTime ?? 0) + revalidateAfterMs <= now
+    );
+
+    await Promise.all(
+      stale.map(spec =>
+        this.revalidateSpec(spec).catch(nativeError => {
+          this.emitError(spec, "Couldn't revalidate", nativeError);
+          return false;
+        })
+      )
+    );
+  }
+
+  // Revalidations of the same spec share one request
+  private revalidateSpec(spec: Spec): Promise<boolean> {
+    let revalidation = this.revalidations.get(spec.id);
+
+    if (!revalidation) {
+      revalidation = this.doRevalidate(spec).finally(() =>
+        this.revalidations.delete(spec.id)
+      );
+      this.revalidations.set(spec.id, revalidation);
+    }
+    return revalidation;
+  }
+
+  private async doRevalidate(spec: Spec): Promise<boolean> {
+    const headers = {
+      ...spec.headers,
+      ...(await this.getHeaders?.(spec.url)),
+    };
+    const response = await (this.fetch ?? fetch)(spec.url, {
+      method: "HEAD",
+      headers: {
+        ...headers,
+        ...(spec.etag ? { "If-None-Match": spec.etag } : {}),
+        ...(spec.lastModified
+          ? { "If-Modified-Since": spec.lastModified }
+          : {}),
+      },
+    });
+
+    if (response.status !== 304 && !response.ok) {
+      throw parseDownloadError({
+        error: response.statusText,
+        errorCode: response.status,
+      });
+    }
+
+    // A 304 means our copy is current, and needn't come with validators
+    const remote =
+      response.status === 304
+        ? {}
+        : validatorsFrom(name => response.headers.get(name));
+    const changed = haveValidatorsChanged(spec, remote);
+
+    if (changed) {
+      const tempPath = `${spec.path}${UPDATE_SUFFIX}`;
+      let moved = false;
+
+      try {
+        const { statusCode } = await RNFS.downloadFile({
+          fromUrl: spec.url,
+          toFile: tempPath,
+          headers,
+        }).promise;
+
+        if (Math.floor(statusCode / 100) !== 2) {
+          throw parseDownloadError({ error: "", errorCode: statusCode });
+        }
+        // The url might have been removed while we were downloading
+        if (!this.specs.some(cur => cur === spec && cur.createTime > 0)) {
+          return false;
+        }
+
+        // Android moves the new file over the old one in one go. iOS can't, so
+        // there's a moment there when the file is missing, during which
+        // getAvailableUrl() serves the remote url.
+        if (Platform.OS === "ios") {
+          await RNFS.unlink(spec.path);
+        }
+        await RNFS.moveFile(tempPath, spec.path);
+        moved = true;
+      } finally {
+        if (!moved) {
+          await RNFS.unlink(tempPath).catch(() => undefined);
+        }
       }
+      spec.sizeBytes = await this.fileSize(spec.path);
+      spec.totalBytes = spec.sizeBytes;
+      spec.bytesDownloaded = spec.sizeBytes;
+      spec.finishTime = Date.now();
+    }
+
+    Object.assign(spec, remote);
+    spec.revalidateTime = Date.now();
+    await this.store.write(this.keyFromId(spec.id), spec);
+
+    if (changed) {
+      this.emit("updated", {
+        url: spec.url,
+        localPath: spec.path,
+        metadata: spec.metadata,
+      });
+      await this.enforceStorageLimit();
+    }
+    return changed;
+  }
+
+  private async doProbe(
+    url: string,
+    headers?: DownloadQueueHeaders
+  ): Promise<DownloadQueueProbeResult> {
+    const response = await (this.fetch ?? fetch)(url, {
+      method: "HEAD",
+      headers: { ...headers, ...(await this.getHeaders?.(url)) },
+    });
+
+    if (!response.ok) {
+      throw parseDownloadError({
+        error: response.statusText,
+        errorCode: response.status,
+      });
+    }
+    return {
+      url,
+      // Some fetch() implementations leave this empty when they can't tell
+      finalUrl: response.url || url,
+      contentType: response.headers.get("content-type") ?? undefined,
+      ...validatorsFrom(name => response.headers.get(name)),
+    };
+  }
 
-      spec.finished = false; // We're not really finished, it seems.
-      await this.kvfs.write(this.keyFromId(spec.id), spec);
+  private async recoverPurgedSpecs(specs: Spec[]) {
+    if (this.evictionPolicy === "remove") {
+      if (specs.length) {
+        await this.removeUrlsInternal(
+          specs.map(spec => spec.url),
+          -1
+        );
+      }
+    } else {
+      specs.forEach(spec => this.start(spec));
     }
   }
 
+  private async deleteOrphanedFiles(
+    storageClass: DownloadQueueStorageClass,
+    filenames: string[]
+  ) {
+    const specs = this.specs.filter(
+      spec => (spec.storageClass ?? "persistent") === storageClass
+    );
+    const orphanedFiles = filenames.filter(filename => {
+      // A spec's own file stays, even if it's named like one of our temporary
+      // files
+      if (specs.some(spec => spec.filename === filename)) {
+        return false;
+      }
+      // Revalidation downloads only live as long as their revalidation, and
+      // none are running yet, so any we find were left by ones that never
+      // finished.
+      if (
+        filename.endsWith(UPDATE_SUFFIX) &&
+        specs.some(spec =>
+          spec.path.endsWith(`/${filename.slice(0, -UPDATE_SUFFIX.length)}`)
+        )
+      ) {
+        return true;
+      }
+
+      const isPartial = filename.endsWith(PARTIAL_SUFFIX);
+      const fullFilename = isPartial
+        ? filename.slice(0, -PARTIAL_SUFFIX.length)
+        : filename;
+      // Remember that spec.id doesn't have an extension! So use basename.
+      const [basename] = splitFilenameFromExtension(fullFilename);
+
+      return !specs.some(
+        spec =>
+          (spec.filename === fullFilename || spec.id === basename) &&
+          // Partials are only worth keeping while they're being downloaded
+          (!isPartial || (!spec.finished && spec.createTime > 0))
+      );
+    });
+
+    await Promise.all(
+      orphanedFiles.map(filename => {
+        try {
+          return RNFS.unlink(
+            `${this.getDomainedBasePath(storageClass)}/${filename}`
+          );
+        } catch {
+          // Ignore errors
+        }
+      })
+    );
+  }
+
   private isTaskDownloading(task: DownloadTask) {
     return ["DOWNLOADING", "PAUSED"].includes(task.state);
   }
@@ -1023,24 +3856,36 @@ export default class DownloadQueue {
     return "";
   }
 
-  private async getDirFilenames() {
+  private extensionOf(url: string, contentType?: string) {
+    return this.extensionFromUri(url) || extensionFromMimeType(contentType);
+  }
+
+  private async getDirFilenames(storageClass: DownloadQueueStorageClass) {
     try {
-      return await RNFS.readdir(this.getDomainedBasePath());
+      return await RNFS.readdir(this.getDomainedBasePath(storageClass));
     } catch {
       // expected error when the directory doesn't exist
     }
     return [];
   }
 
-  private getDomainedBasePath(): string {
-    return `${basePath()}/${this.domain}`;
+  private getDomainedBasePath(storageClass: DownloadQueueStorageClass): string {
+    const base =
+      storageClass === "cache" ? this.cacheDirectory : this.baseDirectory;
+
+    return `${base}/${this.domain}`;
   }
 
-  private pathFromId(id: string, extension: string) {
-    return (
-      `${this.getDomainedBasePath()}/${id}` +
-      (extension.length > 0 ? `.${extension}` : "")
-    );
+  private pathOf(spec: Spec) {
+    const dir = this.getDomainedBasePath(spec.storageClass ?? "persistent");
+
+    if (spec.filename) {
+      return `${dir}/${spec.filename}`;
+    }
+
+    const extension = this.extensionOf(spec.url, spec.contentType);
+
+    return `${dir}/${spec.id}` + (extension.length > 0 ? `.${extension}` : "");
   }
 
   private keyFromId(id: string) {
@@ -1057,6 +3902,23 @@ export default class DownloadQueue {
   }
 }
 
+function partialPathOf(spec: Spec) {
+  return `${spec.path}${PARTIAL_SUFFIX}`;
+}
+
+// Deletes a spec's file, along with any download in progress
+async function unlinkSpecFiles(spec: Spec) {
+  await Promise.all(
+    [spec.path, partialPathOf(spec)].map(async path => {
+      try {
+        await RNFS.unlink(path);
+      } catch {
+        // Expected for missing files
+      }
+    })
+  );
+}
+
 function splitFilenameFromExtension(filename: string): [string, string] {
   const parts = filename.split(".");
 
@@ -1069,10 +3931,107 @@ function splitFilenameFromExtension(filename: string): [string, string] {
   return [filename, ""];
 }
 
+// Handlers only get a metadata argument when there's metadata, so that the
+// ones that don't use it are called just as they were before it existed.
+function metadataArgs(
+  metadata?: DownloadQueueMetadata
+): [] | [DownloadQueueMetadata] {
+  return metadata === undefined ? [] : [metadata];
+}
+
+// Sorts missing values last, whichever the direction.
+function compareSortValues(
+  a: string | number | undefined,
+  b: string | number | undefined,
+  direction: number
+): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a === undefined) {
+    return 1;
+  }
+  if (b === undefined) {
+    return -1;
+  }
+  return (a < b ? -1 : 1) * direction;
+}
+
+// Whether the spec still needs downloading (whether or not it's paused)
+function isSpecDownloadable(spec: Spec): boolean {
+  return spec.createTime > 0 && !spec.finished && !spec.gaveUp;
+}
+
+function toEntry(entry: string | DownloadQueueEntry): DownloadQueueEntry {
+  return typeof entry === "string" ? { url: entry } : entry;
+}
+
 function roundToNextMinute(timestamp: number) {
   return Math.ceil(timestamp / 60000) * 60000;
 }
 
-function basePath() {
+function defaultBaseDirectory() {
   return `${RNFS.DocumentDirectoryPath}/DownloadQueue`;
 }
+
+// Picks out the headers that tell us whether a server's file has changed
+function validatorsFrom(
+  getHeader: (name: string) => string | null | undefined
+): { etag?: string; lastModified?: string; contentLength?: number } {
+  const contentLength = getHeader("content-length");
+
+  return {
+    etag: getHeader("etag") ?? undefined,
+    lastModified: getHeader("last-modified") ?? undefined,
+    contentLength: contentLength ? Number(contentLength) : undefined,
+  };
+}
+
+// The spec fields a probe fills in
+function probedFields(result?: DownloadQueueProbeResult) {
+  return {
+    finalUrl: result?.finalUrl,
+    contentLength: result?.contentLength,
+    contentType: result?.contentType,
+    etag: result?.etag,
+    lastModified: result?.lastModified,
+  };
+}
+
+function extensionFromMimeType(contentType?: string) {
+  // Drops parameters, like the "; charset=utf-8" in "text/plain; charset=utf-8"
+  const mimeType = contentType?.split(";")[0].trim().toLowerCase();
+
+  return (mimeType && MIME_TYPE_EXTENSIONS[mimeType]) ?? "";
+}
+
+// Header names are case-insensitive, and each platform cases them differently
+function headerGetter(headers: { [name: string]: string }) {
+  const lowerCased = new Map(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+
+  return (name: string) => lowerCased.get(name);
+}
+
+// Compares the strongest validator that both sides have. With none to compare,
+// we have to assume the file's unchanged.
+function haveValidatorsChanged(
+  old: { etag?: string; lastModified?: string; contentLength?: number },
+  fresh: { etag?: string; lastModified?: string; contentLength?: number }
+): boolean {
+  if (old.etag && fresh.etag) {
+    return old.etag !== fresh.etag;
+  }
+  if (old.lastModified && fresh.lastModified) {
+    return old.lastModified !== fresh.lastModified;
+  }
+  if (old.contentLength !== undefined && fresh.contentLength !== undefined) {
+    return old.contentLength !== fresh.contentLength;
+  }
+  return false;
+}
+
+function defaultCacheDirectory() {
+  return `${RNFS.CachesDirectoryPath}/DownloadQueue`;
+}
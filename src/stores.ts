@@ -0,0 +1,109 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import KeyValueFileSystem from "key-value-file-system";
+
+/**
+ * One stored value and the key it's stored under.
+ */
+export interface DownloadQueueStoreEntry {
+  key: string;
+  value: unknown;
+}
+
+/**
+ * Where DownloadQueue persists what it knows about each url, so that it can
+ * pick up where it left off in the next app session. Keys are slash-separated
+ * paths (e.g. "/main/1234"), and values are plain objects that survive
+ * JSON.stringify(). Pass your own as `store` to init() to keep the queue in
+ * MMKV, SQLite or wherever else.
+ */
+export interface DownloadQueueStore {
+  /**
+   * Returns every stored entry whose key starts with `prefix`.
+   */
+  readAll(prefix: string): Promise<DownloadQueueStoreEntry[]>;
+  write(key: string, value: unknown): Promise<void>;
+  /**
+   * Writes all the entries at once. Called instead of write() whenever the
+   * queue has more than one to write, so that stores can batch them.
+   */
+  writeMulti(entries: DownloadQueueStoreEntry[]): Promise<void>;
+  remove(key: string): Promise<void>;
+  /**
+   * Removes all the keys at once. Called instead of remove() whenever the
+   * queue has more than one to remove, so that stores can batch them.
+   */
+  removeMulti(keys: string[]): Promise<void>;
+}
+
+/**
+ * The default store, which keeps everything in AsyncStorage (via
+ * key-value-file-system) under the "DownloadQueue" namespace.
+ */
+export class AsyncStorageStore implements DownloadQueueStore {
+  private kvfs = new KeyValueFileSystem(AsyncStorage, "DownloadQueue");
+
+  async readAll(prefix: string): Promise<DownloadQueueStoreEntry[]> {
+    const data = await this.kvfs.readMulti<unknown>(`${prefix}*`);
+
+    return data.map(({ path, value }) => ({ key: path, value }));
+  }
+
+  async write(key: string, value: unknown): Promise<void> {
+    await this.kvfs.write(key, value);
+  }
+
+  async writeMulti(entries: DownloadQueueStoreEntry[]): Promise<void> {
+    await this.kvfs.writeMulti(
+      undefined,
+      entries.map(({ key, value }) => ({ path: key, value }))
+    );
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.kvfs.rm(key);
+  }
+
+  async removeMulti(keys: string[]): Promise<void> {
+    await this.kvfs.rmMulti(keys);
+  }
+}
+
+/**
+ * Keeps everything in memory, so it's gone once the app quits. Meant for
+ * tests, where you can share one between DownloadQueues to simulate app
+ * relaunches.
+ */
+export class MemoryStore implements DownloadQueueStore {
+  private entries = new Map<string, string>();
+
+  readAll(prefix: string): Promise<DownloadQueueStoreEntry[]> {
+    const found: DownloadQueueStoreEntry[] = [];
+
+    this.entries.forEach((json, key) => {
+      if (key.startsWith(prefix)) {
+        found.push({ key, value: JSON.parse(json) });
+      }
+    });
+    return Promise.resolve(found);
+  }
+
+  write(key: string, value: unknown): Promise<void> {
+    // Stored as JSON, like a real store, so that later changes to `value`
+    // aren't persisted until they're written.
+    this.entries.set(key, JSON.stringify(value));
+    return Promise.resolve();
+  }
+
+  async writeMulti(entries: DownloadQueueStoreEntry[]): Promise<void> {
+    await Promise.all(entries.map(({ key, value }) => this.write(key, value)));
+  }
+
+  remove(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  async removeMulti(keys: string[]): Promise<void> {
+    await Promise.all(keys.map(key => this.remove(key)));
+  }
+}
@@ -0,0 +1,103 @@
+import {
+  defaultIsErrorRetryable,
+  DownloadQueueError,
+  parseDownloadError,
+} from "../src/errors";
+
+describe("Download errors", () => {
+  describe("Parsing", () => {
+    it("should recognize Android HTTP status codes", () => {
+      const notFound = parseDownloadError({ error: "", errorCode: 404 });
+      const unavailable = parseDownloadError({ error: "", errorCode: 503 });
+
+      expect(notFound).toBeInstanceOf(DownloadQueueError);
+      expect(notFound).toBeInstanceOf(Error);
+      expect(notFound).toEqual(
+        expect.objectContaining({ category: "httpClient", statusCode: 404 })
+      );
+      expect(unavailable).toEqual(
+        expect.objectContaining({ category: "httpServer", statusCode: 503 })
+      );
+    });
+
+    it("should recognize Android DownloadManager reasons", () => {
+      expect(
+        parseDownloadError({
+          error: "ERROR_INSUFFICIENT_SPACE",
+          errorCode: 1006,
+        }).category
+      ).toBe("diskFull");
+      expect(
+        parseDownloadError({ error: "ERROR_HTTP_DATA_ERROR", errorCode: 1004 })
+          .category
+      ).toBe("network");
+      expect(
+        parseDownloadError({ error: "ERROR_UNKNOWN", errorCode: 1000 })
+      ).toEqual(
+        expect.objectContaining({ category: "unknown", statusCode: undefined })
+      );
+    });
+
+    it("should recognize iOS HTTP status messages", () => {
+      expect(
+        parseDownloadError({ error: "no longer exists", errorCode: -1 })
+      ).toEqual(
+        expect.objectContaining({ category: "httpClient", statusCode: 410 })
+      );
+      expect(
+        parseDownloadError({ error: "Service Unavailable ", errorCode: -1 })
+      ).toEqual(
+        expect.objectContaining({ category: "httpServer", statusCode: 503 })
+      );
+    });
+
+    it("should recognize iOS error descriptions", () => {
+      expect(
+        parseDownloadError({
+          error: "The Internet connection appears to be offline.",
+          errorCode: -1,
+        }).category
+      ).toBe("network");
+      expect(
+        parseDownloadError({ error: "cancelled", errorCode: -1 }).category
+      ).toBe("cancelled");
+      expect(
+        parseDownloadError({
+          error: "The operation couldn’t be completed. No space left on device",
+          errorCode: -1,
+        }).category
+      ).toBe("diskFull");
+    });
+
+    it("should accept strings and other oddities", () => {
+      const fromString = parseDownloadError("unknown error while backgrounded");
+
+      expect(fromString).toEqual(
+        expect.objectContaining({
+          message: "unknown error while backgrounded",
+          category: "unknown",
+          nativeError: "unknown error while backgrounded",
+        })
+      );
+      expect(parseDownloadError(null).message).toBe("");
+      expect(parseDownloadError({ errorCode: "404" })).toEqual(
+        expect.objectContaining({ category: "unknown", statusCode: undefined })
+      );
+    });
+  });
+
+  describe("Default retryability", () => {
+    it("should only refuse to retry permanent client errors", () => {
+      const retryable = (errorCode: number, error = "") =>
+        defaultIsErrorRetryable(parseDownloadError({ error, errorCode }));
+
+      expect(retryable(404)).toBe(false);
+      expect(retryable(410)).toBe(false);
+      expect(retryable(408)).toBe(true);
+      expect(retryable(429)).toBe(true);
+      expect(retryable(500)).toBe(true);
+      expect(retryable(-1, "The request timed out.")).toBe(true);
+      expect(retryable(-1, "cancelled")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,384 @@
+import { mock } from "jest-mock-extended";
+import { createElement } from "react";
+import { act, create, ReactTestRenderer } from "react-test-renderer";
+import type DownloadQueue from "../src";
+import type { DownloadQueueHandlers, DownloadQueueStatus } from "../src";
+import { DownloadQueueError } from "../src/errors";
+import {
+  DownloadQueueProvider,
+  useAvailableUrl,
+  useDownloadQueue,
+  useDownloadStatus,
+  useQueueStatus,
+} from "../src/hooks";
+
+// Tells React we're a test environment, so that it expects act() calls
+(global as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT =
+  true;
+
+let queue = mock<DownloadQueue>();
+let subscribers: DownloadQueueHandlers[] = [];
+
+function emit<K extends keyof DownloadQueueHandlers>(
+  name: K,
+  ...args: Parameters<NonNullable<DownloadQueueHandlers[K]>>
+) {
+  act(() => {
+    subscribers.forEach(handlers =>
+      (handlers[name] as ((...args: unknown[]) => unknown) | undefined)?.(
+        ...args
+      )
+    );
+  });
+}
+
+// Resolves when everything the last act() kicked off has settled
+async function flush() {
+  await act(async () => {
+    await new Promise(resolve => setImmediate(resolve));
+  });
+}
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+}
+
+function defer<T>(): Deferred<T> {
+  let resolve: (value: T) => void = () => undefined;
+  const promise = new Promise<T>(res => (resolve = res));
+
+  return { promise, resolve };
+}
+
+/**
+ * Renders a hook inside a DownloadQueueProvider, handing it `arg`. Call
+ * `rerender` to hand it a different one.
+ */
+async function renderHook<H extends (arg: never) => unknown>(
+  hook: H,
+  arg: Parameters<H>[0]
+) {
+  type A = Parameters<H>[0];
+  const result: { current?: ReturnType<H> } = {};
+  let renderer: ReactTestRenderer | undefined;
+
+  function Probe({ hookArg }: { hookArg: A }) {
+    result.current = hook(hookArg as never) as ReturnType<H>;
+    return null;
+  }
+  const render = (hookArg: A) =>
+    createElement(
+      DownloadQueueProvider,
+      { queue },
+      createElement(Probe, { hookArg })
+    );
+
+  await act(async () => {
+    renderer = create(render(arg));
+    await Promise.resolve();
+  });
+  await flush();
+
+  return {
+    result,
+    rerender: async (newArg: A) => {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      await act(async () => renderer!.update(render(newArg)));
+      await flush();
+    },
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    unmount: () => act(() => renderer!.unmount()),
+  };
+}
+
+function status(url: string, complete: boolean): DownloadQueueStatus {
+  return {
+    url,
+    path: `/docs/${url.length}`,
+    complete,
+    state: complete ? "complete" : "queued",
+    bytesDownloaded: 0,
+    bytesTotal: 0,
+    retryCount: 0,
+    priority: 0,
+    failed: false,
+    pinned: false,
+    paused: false,
+    waitingForSpace: false,
+  };
+}
+
+describe("React hooks", () => {
+  beforeEach(() => {
+    queue = mock<DownloadQueue>();
+    subscribers = [];
+    queue.subscribe.mockImplementation(handlers => {
+      subscribers.push(handlers);
+      return () => {
+        subscribers = subscribers.filter(sub => sub !== handlers);
+      };
+    });
+    queue.getStatus.mockResolvedValue(null);
+    queue.getAvailableUrl.mockImplementation(url => Promise.resolve(url));
+    queue.getQueueStatus.mockResolvedValue([]);
+  });
+
+  it("should refuse to work outside a provider", () => {
+    const consoleError = jest
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+
+    function Probe() {
+      useDownloadQueue();
+      return null;
+    }
+
+    expect(() => act(() => void create(createElement(Probe)))).toThrow(
+      "DownloadQueueProvider"
+    );
+    consoleError.mockRestore();
+  });
+
+  describe("useDownloadStatus", () => {
+    it("should follow a download's progress", async () => {
+      const { result, unmount } = await renderHook(
+        useDownloadStatus,
+        "http://foo.com/a.mp3"
+      );
+      const error = new DownloadQueueError("offline", "network", null);
+
+      expect(result.current).toEqual({
+        progress: 0,
+        bytesWritten: 0,
+        totalBytes: 0,
+        complete: false,
+      });
+
+      emit("onBegin", "http://foo.com/a.mp3", 100);
+      emit("onProgress", "http://foo.com/a.mp3", 0.5, 50, 100);
+      emit("onProgress", "http://boo.com/a.mp3", 0.9, 90, 100);
+      expect(result.current).toEqual(
+        expect.objectContaining({
+          progress: 0.5,
+          bytesWritten: 50,
+          totalBytes: 100,
+        })
+      );
+
+      emit("onError", "http://foo.com/a.mp3", error);
+      expect(result.current?.error).toBe(error);
+
+      emit("onBegin", "http://foo.com/a.mp3", 100);
+      expect(result.current?.error).toBeUndefined();
+
+      emit("onDone", "http://foo.com/a.mp3", "/docs/foo");
+      expect(result.current).toEqual({
+        progress: 1,
+        bytesWritten: 100,
+        totalBytes: 100,
+        complete: true,
+        error: undefined,
+        localPath: "/docs/foo",
+      });
+
+      emit("onWillRemove", "http://foo.com/a.mp3");
+      expect(result.current).toEqual({
+        progress: 0,
+        bytesWritten: 0,
+        totalBytes: 0,
+        complete: false,
+      });
+
+      emit("onDone", "http://foo.com/a.mp3", "/docs/foo");
+      emit("onEvicted", "http://boo.com/a.mp3");
+      expect(result.current?.complete).toBe(true);
+      emit("onEvicted", "http://foo.com/a.mp3");
+      expect(result.current?.complete).toBe(false);
+
+      unmount();
+      expect(subscribers).toHaveLength(0);
+    });
+
+    it("should know about files that were already downloaded", async () => {
+      queue.getStatus.mockResolvedValue(status("http://foo.com/a.mp3", true));
+
+      const { result } = await renderHook(
+        useDownloadStatus,
+        "http://foo.com/a.mp3"
+      );
+
+      expect(result.current).toEqual(
+        expect.objectContaining({
+          progress: 1,
+          complete: true,
+          localPath: status("http://foo.com/a.mp3", true).path,
+        })
+      );
+    });
+
+    it("should start over when the url changes", async () => {
+      queue.getStatus.mockResolvedValue(status("http://foo.com/a.mp3", false));
+
+      const { result, rerender } = await renderHook(
+        useDownloadStatus,
+        "http://foo.com/a.mp3"
+      );
+
+      emit("onProgress", "http://foo.com/a.mp3", 0.5, 50, 100);
+      await rerender("http://boo.com/a.mp3");
+
+      expect(result.current?.progress).toBe(0);
+      expect(subscribers).toHaveLength(1);
+    });
+
+    it("should ignore statuses that arrive after unmounting", async () => {
+      const deferred = defer<DownloadQueueStatus | null>();
+
+      queue.getStatus.mockReturnValue(deferred.promise);
+      const { result, unmount } = await renderHook(
+        useDownloadStatus,
+        "http://foo.com/a.mp3"
+      );
+
+      unmount();
+      deferred.resolve(status("http://foo.com/a.mp3", true));
+      await flush();
+      expect(result.current?.complete).toBe(false);
+    });
+
+    it("should keep its status when the queue can't be used", async () => {
+      queue.getStatus.mockRejectedValue(new Error("not initialized"));
+
+      const { result } = await renderHook(
+        useDownloadStatus,
+        "http://foo.com/a.mp3"
+      );
+
+      expect(result.current?.complete).toBe(false);
+      emit("onProgress", "http://foo.com/a.mp3", 0.5, 50, 100);
+      expect(result.current?.progress).toBe(0.5);
+    });
+  });
+
+  describe("useAvailableUrl", () => {
+    it("should switch to the local file when it's ready", async () => {
+      const { result } = await renderHook(
+        useAvailableUrl,
+        "http://foo.com/a.mp3"
+      );
+
+      expect(result.current).toBe("http://foo.com/a.mp3");
+
+      queue.getAvailableUrl.mockResolvedValue("/docs/foo");
+      emit("onDone", "http://boo.com/a.mp3", "/docs/boo");
+      await flush();
+      expect(result.current).toBe("http://foo.com/a.mp3");
+
+      emit("onDone", "http://foo.com/a.mp3", "/docs/foo");
+      await flush();
+      expect(result.current).toBe("/docs/foo");
+
+      emit("onWillRemove", "http://boo.com/a.mp3");
+      expect(result.current).toBe("/docs/foo");
+
+      emit("onWillRemove", "http://foo.com/a.mp3");
+      expect(result.current).toBe("http://foo.com/a.mp3");
+
+      emit("onDone", "http://foo.com/a.mp3", "/docs/foo");
+      await flush();
+      emit("onEvicted", "http://boo.com/a.mp3");
+      expect(result.current).toBe("/docs/foo");
+      emit("onEvicted", "http://foo.com/a.mp3");
+      expect(result.current).toBe("http://foo.com/a.mp3");
+    });
+
+    it("should ignore urls that arrive after unmounting", async () => {
+      const deferred = defer<string>();
+
+      queue.getAvailableUrl.mockReturnValue(deferred.promise);
+      const { result, unmount } = await renderHook(
+        useAvailableUrl,
+        "http://foo.com/a.mp3"
+      );
+
+      unmount();
+      deferred.resolve("/docs/foo");
+      await flush();
+      expect(result.current).toBe("http://foo.com/a.mp3");
+      expect(subscribers).toHaveLength(0);
+    });
+
+    it("should keep the url when the queue can't be used", async () => {
+      queue.getAvailableUrl.mockRejectedValue(new Error("not initialized"));
+
+      const { result } = await renderHook(
+        useAvailableUrl,
+        "http://foo.com/a.mp3"
+      );
+
+      expect(result.current).toBe("http://foo.com/a.mp3");
+    });
+  });
+
+  describe("useQueueStatus", () => {
+    it("should keep up with the queue", async () => {
+      queue.getQueueStatus.mockResolvedValue([
+        status("http://foo.com/a.mp3", false),
+      ]);
+
+      const { result } = await renderHook(useQueueStatus, undefined);
+
+      expect(result.current).toEqual([status("http://foo.com/a.mp3", false)]);
+
+      queue.getQueueStatus.mockResolvedValue([
+        status("http://foo.com/a.mp3", true),
+        status("http://boo.com/a.mp3", false),
+      ]);
+      emit("onQueueChange");
+      await flush();
+      expect(result.current).toEqual([
+        status("http://foo.com/a.mp3", true),
+        status("http://boo.com/a.mp3", false),
+      ]);
+    });
+
+    it("should only use the newest statuses", async () => {
+      const { result, unmount } = await renderHook(useQueueStatus, undefined);
+      const older = defer<DownloadQueueStatus[]>();
+      const newer = defer<DownloadQueueStatus[]>();
+      const newest = defer<DownloadQueueStatus[]>();
+
+      queue.getQueueStatus
+        .mockReturnValueOnce(older.promise)
+        .mockReturnValueOnce(newer.promise)
+        .mockReturnValueOnce(newest.promise);
+      emit("onBegin", "http://foo.com/a.mp3", 100);
+      emit("onDone", "http://foo.com/a.mp3", "/docs/foo");
+
+      newer.resolve([status("http://foo.com/a.mp3", true)]);
+      older.resolve([status("http://foo.com/a.mp3", false)]);
+      await flush();
+      expect(result.current).toEqual([status("http://foo.com/a.mp3", true)]);
+
+      emit("onError", "http://foo.com/a.mp3", new Error("oops") as never);
+      unmount();
+      newest.resolve([]);
+      await flush();
+      expect(result.current).toEqual([status("http://foo.com/a.mp3", true)]);
+    });
+
+    it("should keep its statuses when the queue can't be used", async () => {
+      queue.getQueueStatus.mockResolvedValue([
+        status("http://foo.com/a.mp3", false),
+      ]);
+
+      const { result } = await renderHook(useQueueStatus, undefined);
+
+      queue.getQueueStatus.mockRejectedValue(new Error("terminated"));
+      emit("onQueueChange");
+      await flush();
+      expect(result.current).toEqual([status("http://foo.com/a.mp3", false)]);
+    });
+  });
+});
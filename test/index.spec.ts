@@ -12,14 +12,29 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import {
   addEventListener,
   fetch,
+  NetInfoCellularGeneration,
   NetInfoState,
   NetInfoStateType,
 } from "@react-native-community/netinfo";
 import { mock } from "jest-mock-extended";
 import KVFS from "key-value-file-system";
-import { Platform } from "react-native";
-import RNFS, { exists, readdir, stat, unlink } from "react-native-fs";
-import DownloadQueue, { DownloadQueueHandlers } from "../src";
+import { AppState, Platform } from "react-native";
+import RNFS, {
+  exists,
+  getFSInfo,
+  hash,
+  readdir,
+  stat,
+  unlink,
+} from "react-native-fs";
+import DownloadQueue, {
+  DownloadQueueError,
+  DownloadQueueHandlers,
+  DownloadQueueNetInfoState,
+  DownloadQueuePathSpec,
+  DownloadQueueStatus,
+  MemoryStore,
+} from "../src";
 
 jest.mock("@react-native-async-storage/async-storage", () => {
   const store: { [key: string]: string } = {};
@@ -95,7 +110,7 @@ jest.mock("react-native-fs", () => {
     uploadFiles: jest.fn(),
     touch: jest.fn(),
     MainBundlePath: jest.fn(),
-    CachesDirectoryPath: jest.fn(),
+    CachesDirectoryPath: "/usr/fake/myCaches",
     DocumentDirectoryPath: "/usr/fake/myDocs",
     ExternalDirectoryPath: jest.fn(),
     ExternalStorageDirectoryPath: jest.fn(),
@@ -110,6 +125,9 @@ jest.mock("react-native", () => ({
   Platform: {
     OS: "ios",
   },
+  AppState: {
+    addEventListener: jest.fn(() => ({ remove: jest.fn() })),
+  },
 }));
 
 jest.useFakeTimers();
@@ -153,16 +171,59 @@ function createBasicTask(): TaskWithHandlers {
 
 let task = createBasicTask();
 
+// Makes download() hand out a distinct task per url, so that tests can finish
+// or fail each download individually.
+function mockDistinctTasks(): { [url: string]: TaskWithHandlers } {
+  const urlMap: { [url: string]: TaskWithHandlers } = {};
+
+  (download as jest.Mock).mockImplementation(
+    (spec: { id: string; url: string }) => {
+      // You need local copies to maintain different ids per object
+      const localTask = createBasicTask();
+
+      urlMap[spec.url] = Object.assign(localTask, {
+        id: spec.id,
+        done: jest.fn((handler: DoneHandler) => {
+          localTask._done = handler;
+          return localTask;
+        }),
+        error: jest.fn((handler: ErrorHandler) => {
+          localTask._error = handler;
+          return localTask;
+        }),
+      });
+      return localTask;
+    }
+  );
+  return urlMap;
+}
+
+function urlsOf(statuses: DownloadQueueStatus[]): string[] {
+  return statuses.map(status => status.url);
+}
+
 async function expectPublicsToFail(queue: DownloadQueue) {
   await expect(queue.addUrl("whatevs")).rejects.toThrow();
+  await expect(queue.addUrls(["whatevs"])).rejects.toThrow();
   await expect(queue.removeUrl("whatevs")).rejects.toThrow();
+  await expect(queue.removeUrls(["whatevs"])).rejects.toThrow();
   await expect(queue.setQueue([])).rejects.toThrow();
   await expect(queue.getQueueStatus()).rejects.toThrow();
+  await expect(queue.query()).rejects.toThrow();
+  expect(() => queue.getAggregateProgress()).toThrow();
   expect(() => queue.pauseAll()).toThrow();
   expect(() => queue.resumeAll()).toThrow();
   await expect(queue.getAvailableUrl("whatevs")).rejects.toThrow();
   await expect(queue.getStatus("whatevs")).rejects.toThrow();
   await expect(queue.setActiveNetworkTypes(["boo"])).rejects.toThrow();
+  await expect(queue.setPriority("whatevs", 1)).rejects.toThrow();
+  await expect(queue.retryUrl("whatevs")).rejects.toThrow();
+  await expect(queue.setPinned("whatevs", true)).rejects.toThrow();
+  await expect(queue.updateMetadata("whatevs", {})).rejects.toThrow();
+  await expect(queue.revalidate("whatevs")).rejects.toThrow();
+  await expect(queue.probe("whatevs")).rejects.toThrow();
+  await expect(queue.pauseUrl("whatevs")).rejects.toThrow();
+  await expect(queue.resumeUrl("whatevs")).rejects.toThrow();
 }
 
 let netInfoHandler: (state: NetInfoState) => void;
@@ -225,6 +286,48 @@ describe("DownloadQueue", () => {
       await expect(queue.init({ domain: "mydomain" })).rejects.toThrow();
     });
 
+    it("should persist to a custom store", async () => {
+      const store = new MemoryStore();
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain", store });
+      await queue.addUrls(["http://foo.com/a.mp3", "http://boo.com/a.mp3"]);
+      await queue.removeUrl("http://boo.com/a.mp3");
+      queue.terminate();
+
+      expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+      expect(AsyncStorage.multiSet).not.toHaveBeenCalled();
+      expect(await store.readAll("/mydomain/")).toEqual([
+        {
+          key: expect.stringMatching(/^\/mydomain\//),
+          value: expect.objectContaining({ url: "http://foo.com/a.mp3" }),
+        },
+      ]);
+
+      // A new queue on the same store picks up where the last one left off
+      const relaunched = new DownloadQueue();
+
+      await relaunched.init({ domain: "mydomain", store });
+      expect(urlsOf(await relaunched.getQueueStatus())).toEqual([
+        "http://foo.com/a.mp3",
+      ]);
+    });
+
+    it("should go back to AsyncStorage when re-inited without a store", async () => {
+      const store = new MemoryStore();
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain", store });
+      await queue.addUrl("http://foo.com/a.mp3");
+      queue.terminate();
+
+      await queue.init({ domain: "mydomain" });
+      expect(await queue.getQueueStatus()).toEqual([]);
+      await queue.addUrl("http://boo.com/a.mp3");
+      expect(AsyncStorage.setItem).toHaveBeenCalledTimes(1);
+      expect(await store.readAll("/mydomain/")).toHaveLength(1);
+    });
+
     it("initializes ok without download dir", async () => {
       // The first time a user runs, readdir will throw because our download
       // directory hasn't been created. We should handle that.
@@ -625,7 +728,10 @@ describe("DownloadQueue", () => {
 
       expect(task.stop).toHaveBeenCalledTimes(1);
       // Should also delete partially-downloaded file
-      expect(unlink).toHaveBeenCalledTimes(1);
+      expect(unlink).toHaveBeenCalledTimes(2);
+      expect(unlink).toHaveBeenCalledWith(
+        `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/foo.partial`
+      );
     });
 
     it("starts downloads for unfinished specs without tasks", async () => {
@@ -872,7 +978,7 @@ describe("DownloadQueue", () => {
       expect(download).toHaveBeenCalledWith(
         expect.objectContaining({
           url: "http://foo.com/a.mp3",
-          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}.mp3`,
+          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}.mp3.partial`,
         })
       );
     });
@@ -891,7 +997,7 @@ describe("DownloadQueue", () => {
       expect(download).toHaveBeenCalledWith(
         expect.objectContaining({
           url: "http://foo.com/a",
-          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}`,
+          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}.partial`,
         })
       );
 
@@ -902,7 +1008,7 @@ describe("DownloadQueue", () => {
       expect(download).toHaveBeenCalledWith(
         expect.objectContaining({
           url: "http://foo.com/a.mp3",
-          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}.mp3`,
+          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}.mp3.partial`,
         })
       );
       (download as jest.Mock).mockClear();
@@ -912,7 +1018,7 @@ describe("DownloadQueue", () => {
       expect(download).toHaveBeenCalledWith(
         expect.objectContaining({
           url: "http://foo.com/abc/",
-          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}`,
+          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}.partial`,
         })
       );
       (download as jest.Mock).mockClear();
@@ -921,7 +1027,7 @@ describe("DownloadQueue", () => {
       expect(download).toHaveBeenCalledWith(
         expect.objectContaining({
           url: "http://foo.com/a/bc.",
-          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}`,
+          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}.partial`,
         })
       );
       (download as jest.Mock).mockClear();
@@ -931,7 +1037,7 @@ describe("DownloadQueue", () => {
       expect(download).toHaveBeenCalledWith(
         expect.objectContaining({
           url: "http://foo.com/a/bc",
-          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}`,
+          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}.partial`,
         })
       );
 
@@ -943,7 +1049,7 @@ describe("DownloadQueue", () => {
       expect(download).toHaveBeenCalledWith(
         expect.objectContaining({
           url: "http://foo.com/b.mp3",
-          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}`,
+          destination: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${task.id}.partial`,
         })
       );
     });
@@ -1112,6 +1218,67 @@ describe("DownloadQueue", () => {
       await relaunchQueue.init({ domain: "mydomain" });
       expect(download).toHaveBeenCalledTimes(1); // Just the first time only
     });
+
+    it("should add many urls with one write", async () => {
+      const queue = new DownloadQueue();
+      const onQueueChange = jest.fn();
+
+      await queue.init({ domain: "mydomain", handlers: { onQueueChange } });
+      await queue.addUrl("http://foo.com/a.mp3");
+      await queue.removeUrl("http://foo.com/a.mp3", 0);
+      await queue.addUrl("http://boo.com/a.mp3", { priority: 1 });
+      jest.clearAllMocks();
+
+      const summary = await queue.addUrls(
+        [
+          "http://foo.com/a.mp3",
+          "http://boo.com/a.mp3",
+          "http://moo.com/a.mp3",
+          "http://moo.com/a.mp3",
+          "http://shoo.com/a.mp3",
+        ],
+        { priority: 2 }
+      );
+
+      expect(summary).toEqual({
+        added: [
+          "http://foo.com/a.mp3",
+          "http://moo.com/a.mp3",
+          "http://shoo.com/a.mp3",
+        ],
+        removed: [],
+        unchanged: ["http://boo.com/a.mp3"],
+      });
+      expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+      expect(AsyncStorage.multiSet).toHaveBeenCalledTimes(1);
+      expect(
+        (AsyncStorage.multiSet as jest.Mock).mock.calls[0][0]
+      ).toHaveLength(4);
+      expect(download).toHaveBeenCalledTimes(3);
+      expect(onQueueChange).toHaveBeenCalledTimes(1);
+
+      const statuses = await queue.getQueueStatus();
+      expect(statuses).toHaveLength(4);
+      statuses.forEach(status => expect(status.priority).toBe(2));
+    });
+
+    it("should not write anything when adding urls already in the queue", async () => {
+      const queue = new DownloadQueue();
+      const onQueueChange = jest.fn();
+
+      await queue.init({ domain: "mydomain", handlers: { onQueueChange } });
+      await queue.addUrl("http://foo.com/a.mp3");
+      jest.clearAllMocks();
+
+      expect(await queue.addUrls(["http://foo.com/a.mp3"])).toEqual({
+        added: [],
+        removed: [],
+        unchanged: ["http://foo.com/a.mp3"],
+      });
+      expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+      expect(AsyncStorage.multiSet).not.toHaveBeenCalled();
+      expect(onQueueChange).not.toHaveBeenCalled();
+    });
   });
 
   describe("Removing", () => {
@@ -1136,7 +1303,11 @@ describe("DownloadQueue", () => {
       );
 
       await queue.removeUrl("http://foo.com/a.mp3");
-      expect(unlink).toHaveBeenCalledTimes(1);
+      // Both the file and any download in progress
+      expect(unlink).toHaveBeenCalledTimes(2);
+      expect(unlink).toHaveBeenCalledWith(
+        `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${assignedId}.partial`
+      );
 
       expect(AsyncStorage.multiRemove).toHaveBeenCalledWith([
         "DownloadQueue/mydomain/" + assignedId,
@@ -1165,7 +1336,7 @@ describe("DownloadQueue", () => {
 
       await queue.removeUrl("http://foo.com/a.mp3");
       await queue.removeUrl("http://foo.com/a.mp3");
-      expect(unlink).toHaveBeenCalledTimes(1);
+      expect(unlink).toHaveBeenCalledTimes(2);
       expect(task.stop).toHaveBeenCalledTimes(1);
 
       expect(AsyncStorage.multiRemove).toHaveBeenCalledWith([
@@ -1173,6 +1344,71 @@ describe("DownloadQueue", () => {
       ]);
       expect(AsyncStorage.multiRemove).toHaveBeenCalledTimes(1);
     });
+
+    it("should remove many urls with one write", async () => {
+      const queue = new DownloadQueue();
+      const idMap: { [url: string]: string } = {};
+      const resolvers: (() => void)[] = [];
+      const onWillRemove = jest.fn(
+        () => new Promise<void>(resolve => resolvers.push(resolve))
+      );
+
+      (download as jest.Mock).mockImplementation(
+        (spec: { id: string; url: string }) => {
+          idMap[spec.url] = spec.id;
+          return { ...task, id: spec.id };
+        }
+      );
+      await queue.init({ domain: "mydomain", handlers: { onWillRemove } });
+      await queue.addUrls(["http://foo.com/a.mp3", "http://boo.com/a.mp3"]);
+
+      const removal = queue.removeUrls([
+        "http://foo.com/a.mp3",
+        "http://boo.com/a.mp3",
+        "http://moo.com/a.mp3",
+      ]);
+
+      await advanceThroughNextTimersAndPromises();
+      // Both are asked about before either has answered
+      expect(onWillRemove).toHaveBeenCalledTimes(2);
+      resolvers.forEach(resolve => resolve());
+
+      expect(await removal).toEqual({
+        added: [],
+        removed: ["http://foo.com/a.mp3", "http://boo.com/a.mp3"],
+        unchanged: ["http://moo.com/a.mp3"],
+      });
+      expect(AsyncStorage.multiRemove).toHaveBeenCalledTimes(1);
+      expect(AsyncStorage.multiRemove).toHaveBeenCalledWith([
+        "DownloadQueue/mydomain/" + idMap["http://foo.com/a.mp3"],
+        "DownloadQueue/mydomain/" + idMap["http://boo.com/a.mp3"],
+      ]);
+      expect(unlink).toHaveBeenCalledTimes(4);
+      expect(task.stop).toHaveBeenCalledTimes(2);
+      expect(await queue.getQueueStatus()).toEqual([]);
+    });
+
+    it("should lazy-delete many urls with one write", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrls(["http://foo.com/a.mp3", "http://boo.com/a.mp3"]);
+      jest.clearAllMocks();
+
+      await queue.removeUrls(
+        ["http://foo.com/a.mp3", "http://boo.com/a.mp3"],
+        Date.now() + 30000
+      );
+
+      expect(AsyncStorage.multiSet).toHaveBeenCalledTimes(1);
+      expect(AsyncStorage.multiRemove).not.toHaveBeenCalled();
+      expect(unlink).not.toHaveBeenCalled();
+      expect(await queue.getQueueStatus()).toEqual([]);
+
+      await advanceThroughNextTimersAndPromises();
+      expect(AsyncStorage.multiRemove).toHaveBeenCalledTimes(1);
+      expect(unlink).toHaveBeenCalledTimes(4);
+    });
   });
 
   describe("setQueue", () => {
@@ -1201,7 +1437,7 @@ describe("DownloadQueue", () => {
         "http://shoo.com/a.mp3",
       ]);
 
-      expect(unlink).toHaveBeenCalledTimes(1);
+      expect(unlink).toHaveBeenCalledTimes(2);
       expect(AsyncStorage.multiRemove).toHaveBeenCalledWith([
         "DownloadQueue/mydomain/" + idMap["http://boo.com/a.mp3"],
       ]);
@@ -1211,6 +1447,25 @@ describe("DownloadQueue", () => {
       );
       expect(download).toHaveBeenCalledTimes(4);
     });
+
+    it("should summarize what changed", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrls(["http://foo.com/a.mp3", "http://boo.com/a.mp3"]);
+
+      expect(
+        await queue.setQueue([
+          "http://foo.com/a.mp3",
+          "http://moo.com/a.mp3",
+          "http://moo.com/a.mp3",
+        ])
+      ).toEqual({
+        added: ["http://moo.com/a.mp3"],
+        removed: ["http://boo.com/a.mp3"],
+        unchanged: ["http://foo.com/a.mp3"],
+      });
+    });
   });
 
   describe("Getting queue status", () => {
@@ -1244,8 +1499,8 @@ describe("DownloadQueue", () => {
         })
       );
 
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      task._done!({ bytesDownloaded: 8675309, bytesTotal: 8675309 });
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await task._done!({ bytesDownloaded: 8675309, bytesTotal: 8675309 });
       const resBoo = await queue.getStatus("http://boo.com/a.mp3");
       expect(resBoo).toEqual(
         expect.objectContaining({ url: "http://boo.com/a.mp3", complete: true })
@@ -1348,13 +1603,13 @@ describe("DownloadQueue", () => {
         "http://boo.com/a.mp3",
       ]);
 
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      idMap["http://foo.com/a.mp3"]._done!({
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await idMap["http://foo.com/a.mp3"]._done!({
         bytesDownloaded: 8675309,
         bytesTotal: 8675309,
       });
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      idMap["http://boo.com/a.mp3"]._done!({
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await idMap["http://boo.com/a.mp3"]._done!({
         bytesDownloaded: 8675309,
         bytesTotal: 8675309,
       });
@@ -1436,6 +1691,269 @@ describe("DownloadQueue", () => {
       );
       expect(res.length).toEqual(2);
     });
+
+    it("should report each url's state and progress", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const foo = "http://foo.com/a.mp3";
+      const boo = "http://boo.com/a.mp3";
+
+      await queue.init({ domain: "mydomain", maxConcurrentDownloads: 1 });
+      await queue.addUrl(foo);
+      await queue.addUrl(boo);
+      expect(await queue.getStatus(foo)).toEqual(
+        expect.objectContaining({
+          state: "downloading",
+          bytesDownloaded: 0,
+          bytesTotal: 0,
+          retryCount: 0,
+          createTime: Date.now(),
+          finishTime: undefined,
+        })
+      );
+      expect(await queue.getStatus(boo)).toEqual(
+        expect.objectContaining({ state: "queued" })
+      );
+
+      const progress = (tasks[foo].progress as jest.Mock).mock
+        .calls[0][0] as ProgressHandler;
+      progress({ bytesDownloaded: 25, bytesTotal: 100 });
+      expect(await queue.getStatus(foo)).toEqual(
+        expect.objectContaining({ bytesDownloaded: 25, bytesTotal: 100 })
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      tasks[foo]._error!({ error: "offline", errorCode: -1 });
+      expect(await queue.getStatus(foo)).toEqual(
+        expect.objectContaining({
+          state: "waitingForRetry",
+          retryCount: 1,
+          lastError: expect.objectContaining({ category: "network" }),
+        })
+      );
+      expect(await queue.getStatus(boo)).toEqual(
+        expect.objectContaining({ state: "downloading" })
+      );
+
+      queue.pauseAll();
+      expect(await queue.getStatus(boo)).toEqual(
+        expect.objectContaining({ state: "paused" })
+      );
+      queue.resumeAll();
+
+      (exists as jest.Mock).mockReturnValue(true);
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await tasks[boo]._done!({
+        bytesDownloaded: 8675309,
+        bytesTotal: 8675309,
+      });
+      expect(await queue.getStatus(boo)).toEqual(
+        expect.objectContaining({
+          state: "complete",
+          bytesDownloaded: 8675309,
+          bytesTotal: 8675309,
+          finishTime: Date.now(),
+          lastError: undefined,
+        })
+      );
+    });
+
+    it("should report failed and lazy-deleted urls", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const foo = "http://foo.com/a.mp3";
+      const boo = "http://boo.com/a.mp3";
+      const deleteTime = Date.now() + 3000;
+
+      await queue.init({
+        domain: "mydomain",
+        retryPolicy: { maxAttempts: 1 },
+      });
+      await queue.addUrl(foo);
+      await queue.addUrl(boo);
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      tasks[foo]._error!({ error: "Not Found", errorCode: 404 });
+      expect(await queue.getStatus(foo)).toEqual(
+        expect.objectContaining({ state: "failed", retryCount: 1 })
+      );
+      await queue.retryUrl(foo);
+      expect(await queue.getStatus(foo)).toEqual(
+        expect.objectContaining({ state: "downloading", retryCount: 0 })
+      );
+
+      await queue.removeUrl(boo, deleteTime);
+      expect(await queue.getQueueStatus()).toHaveLength(1);
+      expect(await queue.getStatus(boo)).toBeNull();
+      expect(
+        await queue.getQueueStatus({ includeLazyDeleted: true })
+      ).toHaveLength(2);
+      expect(await queue.getStatus(boo, { includeLazyDeleted: true })).toEqual(
+        expect.objectContaining({
+          state: "lazyDeleted",
+          createTime: undefined,
+          deleteTime,
+        })
+      );
+    });
+
+    it("should know how far along revived downloads are", async () => {
+      const queue = new DownloadQueue();
+
+      Object.assign(task, {
+        state: "DOWNLOADING",
+        bytesDownloaded: 50,
+        bytesTotal: 200,
+      });
+      (checkForExistingDownloads as jest.Mock).mockReturnValue([task]);
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/foo`,
+        createTime: Date.now() - 1000,
+        finished: false,
+      });
+      await queue.init({ domain: "mydomain" });
+
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({
+          state: "downloading",
+          bytesDownloaded: 50,
+          bytesTotal: 200,
+        })
+      );
+    });
+
+    it("should query urls by state and metadata", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const foo = "http://foo.com/a.mp3";
+      const boo = "http://boo.com/a.mp3";
+      const moo = "http://moo.com/a.mp3";
+
+      await queue.init({
+        domain: "mydomain",
+        retryPolicy: { maxAttempts: 1 },
+      });
+      await queue.addUrls([
+        { url: foo, metadata: { show: "a", season: 1 } },
+        { url: boo, metadata: { show: "a", season: 2 } },
+        { url: moo, metadata: { show: "b", season: 1 } },
+      ]);
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      tasks[boo]._error!({ error: "Not Found", errorCode: 404 });
+      await advanceThroughNextTimersAndPromises();
+
+      expect(urlsOf(await queue.query({ state: "failed" }))).toEqual([boo]);
+      expect(
+        urlsOf(await queue.query({ state: ["failed", "downloading"] }))
+      ).toEqual([foo, boo, moo]);
+      expect(
+        urlsOf(await queue.query({ metadataMatch: { show: "a" } }))
+      ).toEqual([foo, boo]);
+      expect(
+        urlsOf(
+          await queue.query({
+            state: "downloading",
+            metadataMatch: { season: 1 },
+          })
+        )
+      ).toEqual([foo, moo]);
+      expect(await queue.query({ metadataMatch: { show: "c" } })).toEqual([]);
+    });
+
+    it("should query urls by when they were added", async () => {
+      const queue = new DownloadQueue();
+      const start = Date.now();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+      jest.setSystemTime(start + 1000);
+      await queue.addUrl("http://boo.com/a.mp3");
+      jest.setSystemTime(start + 2000);
+      await queue.addUrl("http://moo.com/a.mp3");
+      await queue.removeUrl("http://moo.com/a.mp3", start + 60000);
+
+      expect(
+        await queue.query({ createdAfter: start, includeLazyDeleted: true })
+      ).toEqual([expect.objectContaining({ url: "http://boo.com/a.mp3" })]);
+      expect(
+        await queue.query({
+          createdBefore: start + 1000,
+          includeLazyDeleted: true,
+        })
+      ).toEqual([expect.objectContaining({ url: "http://foo.com/a.mp3" })]);
+      jest.runAllTimers();
+    });
+
+    it("should sort and paginate queries", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const foo = "http://foo.com/a.mp3";
+      const boo = "http://boo.com/a.mp3";
+      const moo = "http://moo.com/a.mp3";
+
+      (exists as jest.Mock).mockResolvedValue(true);
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl(foo, { priority: 2 });
+      await queue.addUrl(boo, { priority: 3 });
+      await queue.addUrl(moo, { priority: 1 });
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await tasks[boo]._done!({ bytesDownloaded: 100, bytesTotal: 100 });
+
+      expect(urlsOf(await queue.query({ sortBy: "priority" }))).toEqual([
+        moo,
+        foo,
+        boo,
+      ]);
+      expect(
+        urlsOf(await queue.query({ sortBy: "priority", sortOrder: "desc" }))
+      ).toEqual([boo, foo, moo]);
+      expect(urlsOf(await queue.query({ sortBy: "url" }))).toEqual([
+        boo,
+        foo,
+        moo,
+      ]);
+      // Urls without a finishTime go last, in the order they were added
+      expect(urlsOf(await queue.query({ sortBy: "finishTime" }))).toEqual([
+        boo,
+        foo,
+        moo,
+      ]);
+      expect(
+        urlsOf(await queue.query({ sortBy: "finishTime", sortOrder: "desc" }))
+      ).toEqual([boo, foo, moo]);
+      expect(
+        urlsOf(await queue.query({ sortBy: "priority", offset: 1, limit: 1 }))
+      ).toEqual([foo]);
+      expect(urlsOf(await queue.query({ offset: 2 }))).toEqual([moo]);
+    });
+
+    it("should skip checking files when asked", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+
+      (exists as jest.Mock).mockResolvedValue(true);
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await tasks["http://foo.com/a.mp3"]._done!({
+        bytesDownloaded: 100,
+        bytesTotal: 100,
+      });
+
+      // The file's been flushed, but only a check would notice
+      (exists as jest.Mock).mockClear();
+      (exists as jest.Mock).mockResolvedValue(false);
+      expect(await queue.query({ verifyFiles: false })).toEqual([
+        expect.objectContaining({ complete: true, state: "complete" }),
+      ]);
+      expect(exists).not.toHaveBeenCalled();
+      expect(await queue.query()).toEqual([
+        expect.objectContaining({ complete: false }),
+      ]);
+      expect(exists).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe("Lazy deletion", () => {
@@ -1522,11 +2040,12 @@ describe("DownloadQueue", () => {
         `DownloadQueue/mydomain/${urlsToIds["http://boo.com/a.mp3"]}`,
       ]);
       expect(AsyncStorage.multiRemove).toHaveBeenCalledTimes(1);
-      expect(unlink).toHaveBeenCalledTimes(1);
+      expect(unlink).toHaveBeenCalledTimes(2);
       expect(unlink).toHaveBeenCalledWith(
-        expect.stringMatching(
-          `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${urlsToIds["http://boo.com/a.mp3"]}`
-        )
+        `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${urlsToIds["http://boo.com/a.mp3"]}`
+      );
+      expect(unlink).toHaveBeenCalledWith(
+        `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${urlsToIds["http://boo.com/a.mp3"]}.partial`
       );
       expect(jest.getTimerCount()).toEqual(1);
 
@@ -1536,7 +2055,7 @@ describe("DownloadQueue", () => {
       expect(AsyncStorage.multiRemove).toHaveBeenCalledWith([
         `DownloadQueue/mydomain/${urlsToIds["http://moo.com/a.mp3"]}`,
       ]);
-      expect(unlink).toHaveBeenCalledTimes(2);
+      expect(unlink).toHaveBeenCalledTimes(4);
       expect(unlink).toHaveBeenCalledWith(
         expect.stringMatching(
           `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${urlsToIds["http://moo.com/a.mp3"]}`
@@ -1711,23 +2230,241 @@ describe("DownloadQueue", () => {
       expect(task.pause).toHaveBeenCalledTimes(3); // no change here either
       expect(task.resume).toHaveBeenCalledTimes(3);
     });
-  });
 
-  describe("Responding to network connectivity changes", () => {
-    function createNetState(isConnected: boolean): NetInfoState {
-      return isConnected
-        ? {
-            ...mock<NetInfoState>(),
-            isConnected,
-            isInternetReachable: true,
-            details: { isConnectionExpensive: false },
-            type: "other" as NetInfoStateType.other,
-          }
-        : {
-            ...mock<NetInfoState>(),
-            isConnected: false,
-            type: "none" as NetInfoStateType.none,
-            isInternetReachable: false,
+    it("should pause and resume a single url", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const foo = "http://foo.com/a.mp3";
+      const boo = "http://boo.com/a.mp3";
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl(foo);
+      await queue.addUrl(boo);
+
+      await queue.pauseUrl(foo);
+      await queue.pauseUrl(foo);
+      await queue.pauseUrl("http://never.com/added.mp3");
+      expect(tasks[foo].pause).toHaveBeenCalledTimes(1);
+      expect(tasks[boo].pause).not.toHaveBeenCalled();
+      expect(await queue.getStatus(foo)).toEqual(
+        expect.objectContaining({ paused: true, state: "paused" })
+      );
+      expect(await queue.getStatus(boo)).toEqual(
+        expect.objectContaining({ paused: false, state: "downloading" })
+      );
+
+      // Resuming everything leaves the paused url alone
+      queue.pauseAll();
+      queue.resumeAll();
+      expect(tasks[foo].resume).not.toHaveBeenCalled();
+      expect(tasks[boo].resume).toHaveBeenCalledTimes(1);
+
+      // ...as does resuming the url while everything's paused
+      queue.pauseAll();
+      await queue.resumeUrl(foo);
+      await queue.resumeUrl(foo);
+      await queue.resumeUrl("http://never.com/added.mp3");
+      expect(tasks[foo].resume).not.toHaveBeenCalled();
+      queue.resumeAll();
+      expect(tasks[foo].resume).toHaveBeenCalledTimes(1);
+
+      await queue.pauseUrl(foo);
+      await queue.resumeUrl(foo);
+      expect(tasks[foo].resume).toHaveBeenCalledTimes(2);
+      expect(await queue.getStatus(foo)).toEqual(
+        expect.objectContaining({ paused: false, state: "downloading" })
+      );
+    });
+
+    it("should keep paused urls from starting until they're resumed", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const foo = "http://foo.com/a.mp3";
+      const boo = "http://boo.com/a.mp3";
+      const moo = "http://moo.com/a.mp3";
+
+      await queue.init({ domain: "mydomain", maxConcurrentDownloads: 1 });
+      await queue.addUrl(foo);
+      await queue.addUrl(boo);
+      await queue.pauseUrl(boo);
+      await queue.pauseUrl(foo);
+
+      // Paused downloads give up their slots to the next url in line
+      await queue.addUrl(moo, { priority: 1 });
+      expect(download).toHaveBeenCalledTimes(2);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: moo })
+      );
+
+      // Resumed downloads wait for a slot, then pick up where they left off
+      await queue.resumeUrl(foo);
+      expect(tasks[foo].resume).not.toHaveBeenCalled();
+      expect(await queue.getStatus(foo)).toEqual(
+        expect.objectContaining({ state: "queued", position: 0 })
+      );
+      (exists as jest.Mock).mockReturnValue(true);
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await tasks[moo]._done!({ bytesDownloaded: 42, bytesTotal: 42 });
+      expect(tasks[foo].resume).toHaveBeenCalledTimes(1);
+      expect(download).toHaveBeenCalledTimes(2);
+      expect(await queue.getStatus(foo)).toEqual(
+        expect.objectContaining({ state: "downloading" })
+      );
+
+      // Paused before it ever started, so it starts (in line) upon resuming
+      await queue.resumeUrl(boo);
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await tasks[foo]._done!({ bytesDownloaded: 42, bytesTotal: 42 });
+      expect(download).toHaveBeenCalledTimes(3);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: boo })
+      );
+
+      // Finished urls have nothing to resume
+      await queue.pauseUrl(foo);
+      await queue.resumeUrl(foo);
+      expect(download).toHaveBeenCalledTimes(3);
+    });
+
+    it("should hold paused urls that fail until they're resumed", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const foo = "http://foo.com/a.mp3";
+      const boo = "http://boo.com/a.mp3";
+
+      await queue.init({
+        domain: "mydomain",
+        retryPolicy: { maxAttempts: 2 },
+      });
+      await queue.addUrl(foo);
+      await queue.addUrl(boo);
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      tasks[foo]._error!({ error: "offline", errorCode: -1 });
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      tasks[boo]._error!({ error: "Not Found", errorCode: 404 });
+      await queue.pauseUrl(foo);
+      await queue.pauseUrl(boo);
+
+      // Resuming before the retry's due leaves it to the retry timer
+      await queue.resumeUrl(foo);
+      await queue.pauseUrl(foo);
+      await advanceThroughNextTimersAndPromises();
+      expect(download).toHaveBeenCalledTimes(2);
+
+      await queue.resumeUrl(foo);
+      await queue.resumeUrl(boo);
+      expect(download).toHaveBeenCalledTimes(3);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: foo })
+      );
+      expect(await queue.getStatus(boo)).toEqual(
+        expect.objectContaining({ state: "failed" })
+      );
+    });
+
+    it("should drop paused urls that were waiting to start", async () => {
+      const queue = new DownloadQueue();
+      let resolveHeaders: (headers: { [name: string]: string }) => void = () =>
+        undefined;
+      const getHeaders = jest.fn(
+        () =>
+          new Promise<{ [name: string]: string }>(
+            resolve => (resolveHeaders = resolve)
+          )
+      );
+
+      (getFSInfo as jest.Mock).mockResolvedValue({
+        freeSpace: 100,
+        totalSpace: 1000,
+      });
+      await queue.init({
+        domain: "mydomain",
+        getHeaders,
+        storageReserveBytes: 50,
+        maxConcurrentDownloads: 1,
+      });
+      await queue.addUrl("http://foo.com/a.mp3", { expectedBytes: 60 });
+      await queue.addUrl("http://boo.com/a.mp3");
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(getHeaders).toHaveBeenCalledWith("http://boo.com/a.mp3");
+
+      await queue.pauseUrl("http://foo.com/a.mp3");
+      expect(jest.getTimerCount()).toBe(0);
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ waitingForSpace: false })
+      );
+
+      // Pausing it while it waits on headers frees up its slot
+      await queue.addUrl("http://moo.com/a.mp3");
+      await queue.pauseUrl("http://boo.com/a.mp3");
+      resolveHeaders({});
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(download).toHaveBeenCalledTimes(0);
+      expect(getHeaders).toHaveBeenLastCalledWith("http://moo.com/a.mp3");
+    });
+
+    it("should keep urls paused across launches", async () => {
+      const queue = new DownloadQueue();
+      const revivedTask = createBasicTask();
+      let progresser: ProgressHandler | undefined;
+
+      Object.assign(revivedTask, {
+        state: "DOWNLOADING",
+        progress: jest.fn((handler: ProgressHandler) => {
+          progresser = handler;
+          return revivedTask;
+        }),
+      });
+      (checkForExistingDownloads as jest.Mock).mockReturnValue([revivedTask]);
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/foo`,
+        createTime: Date.now() - 1000,
+        finished: false,
+        paused: true,
+      });
+      await kvfs.write("/mydomain/boo", {
+        id: "boo",
+        url: "http://boo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/boo`,
+        createTime: Date.now() - 1000,
+        finished: false,
+        paused: true,
+      });
+      await queue.init({ domain: "mydomain" });
+
+      // Once before reattaching handlers, and once more because it's paused
+      expect(revivedTask.pause).toHaveBeenCalledTimes(2);
+      expect(download).not.toHaveBeenCalled();
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      progresser!({ bytesDownloaded: 10, bytesTotal: 100 });
+      expect(revivedTask.pause).toHaveBeenCalledTimes(3);
+
+      await queue.resumeUrl("http://boo.com/a.mp3");
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "boo" })
+      );
+    });
+  });
+
+  describe("Responding to network connectivity changes", () => {
+    function createNetState(isConnected: boolean): NetInfoState {
+      return isConnected
+        ? {
+            ...mock<NetInfoState>(),
+            isConnected,
+            isInternetReachable: true,
+            details: { isConnectionExpensive: false },
+            type: "other" as NetInfoStateType.other,
+          }
+        : {
+            ...mock<NetInfoState>(),
+            isConnected: false,
+            type: "none" as NetInfoStateType.none,
+            isInternetReachable: false,
             details: null,
           };
     }
@@ -1970,194 +2707,467 @@ describe("DownloadQueue", () => {
       expect(task.resume).toHaveBeenCalledTimes(1);
     });
 
-    it("should refuse to set active network types without netInfoFetchState", async () => {
-      const queue = new DownloadQueue();
-
-      await queue.init({ domain: "mydomain" });
-      await expect(queue.setActiveNetworkTypes(["wifi"])).rejects.toThrow();
-    });
-
-    it("should do nothing when setting same active network types", async () => {
+    it("should leave network-held downloads paused while the queue is", async () => {
       const queue = new DownloadQueue();
+      const state = createNetState(true);
 
       await queue.init({
         domain: "mydomain",
-        activeNetworkTypes: ["wifi", "ethernet"],
+        activeNetworkTypes: ["wifi"],
         netInfoAddEventListener: addEventListener,
         netInfoFetchState: fetch,
       });
-      expect(addEventListener).toHaveBeenCalledTimes(1);
-      expect(fetch).toHaveBeenCalledTimes(1);
+      await queue.addUrl("http://foo.com/a.mp3");
 
-      await queue.setActiveNetworkTypes(["ethernet", "wifi"]);
-      expect(fetch).toHaveBeenCalledTimes(1); // no change
+      state.type = "cellular" as NetInfoStateType.cellular;
+      netInfoHandler(state);
+      queue.pauseAll();
 
-      await queue.setActiveNetworkTypes(["ethernet", "wifi", "cellular"]);
-      expect(fetch).toHaveBeenCalledTimes(2);
+      state.type = "wifi" as NetInfoStateType.wifi;
+      netInfoHandler(state);
+      expect(task.resume).not.toHaveBeenCalled();
+
+      queue.resumeAll();
+      expect(task.resume).toHaveBeenCalledTimes(1);
     });
 
-    it("should update activeNetworkTypes to current conditions", async () => {
+    it("should let urls override activeNetworkTypes", async () => {
       const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
       const state = createNetState(true);
+      const thumb = "http://foo.com/thumb.jpg";
+      const video = "http://foo.com/video.mp4";
+      const doc = "http://foo.com/doc.pdf";
 
       await queue.init({
         domain: "mydomain",
-        activeNetworkTypes: ["wifi", "ethernet"],
+        activeNetworkTypes: ["wifi"],
         netInfoAddEventListener: addEventListener,
         netInfoFetchState: fetch,
       });
-
-      await queue.addUrl("http://foo.com/a.mp3");
-      expect(task.pause).not.toHaveBeenCalled();
+      await queue.addUrl(thumb, { allowedNetworkTypes: [] });
+      await queue.addUrl(video);
+      await queue.addUrl(doc, { allowedNetworkTypes: ["wifi", "cellular"] });
 
       state.type = "cellular" as NetInfoStateType.cellular;
       netInfoHandler(state);
-      expect(task.pause).toHaveBeenCalledTimes(1);
-
-      // It should resume now that active network types have changed
-      (fetch as jest.Mock).mockResolvedValueOnce(state);
-      await queue.setActiveNetworkTypes(["bebop", "cellular"]);
-      expect(task.pause).toHaveBeenCalledTimes(1);
-      expect(task.resume).toHaveBeenCalledTimes(1);
-
-      // It should have no effect now that we're back to wifi
-      await queue.setActiveNetworkTypes(["ethernet", "wifi"]);
-      expect(task.pause).toHaveBeenCalledTimes(1);
-      expect(task.resume).toHaveBeenCalledTimes(1);
-    });
-  });
-
-  describe("Retrying errored downloads", () => {
-    it("should retry errored downloads", async () => {
-      const queue = new DownloadQueue();
-
-      (download as jest.Mock).mockImplementation((spec: { id: string }) =>
-        Object.assign(task, {
-          id: spec.id,
-          done: jest.fn((handler: DoneHandler) => {
-            task._done = handler;
-            return task;
-          }),
-          error: (handler: ErrorHandler) => {
-            task._error = handler;
-            return task;
-          },
-        })
+      expect(tasks[thumb].pause).not.toHaveBeenCalled();
+      expect(tasks[video].pause).toHaveBeenCalledTimes(1);
+      expect(tasks[doc].pause).not.toHaveBeenCalled();
+      expect(await queue.getStatus(video)).toEqual(
+        expect.objectContaining({ state: "paused" })
+      );
+      expect(await queue.getStatus(doc)).toEqual(
+        expect.objectContaining({ state: "downloading" })
       );
-      await queue.init({ domain: "mydomain" });
-      await queue.addUrl("http://foo.com/a.mp3");
-
-      expect(download).toHaveBeenCalledTimes(1);
-      expect(jest.getTimerCount()).toBe(0);
-
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      task._error!({ error: "something went wrong", errorCode: 500 });
-      expect(jest.getTimerCount()).toBe(1); // The interval should be set
 
-      await advanceThroughNextTimersAndPromises();
-      expect(download).toHaveBeenCalledTimes(2); // Should have tried again
+      // Going offline pauses everything
+      netInfoHandler(createNetState(false));
+      expect(tasks[thumb].pause).toHaveBeenCalledTimes(1);
+      expect(await queue.getStatus(doc)).toEqual(
+        expect.objectContaining({ state: "paused" })
+      );
 
-      await advanceThroughNextTimersAndPromises();
-      // Previous task should still be active, so no more download() calls
-      expect(download).toHaveBeenCalledTimes(2);
+      // Coming back on cellular leaves wifi-only urls paused
+      netInfoHandler(state);
+      expect(tasks[thumb].resume).toHaveBeenCalledTimes(1);
+      expect(tasks[video].resume).not.toHaveBeenCalled();
 
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
-      await task._done!({ bytesDownloaded: 8675309, bytesTotal: 8675309 });
-      // The interval should be cleared on successful downloads
-      expect(jest.getTimerCount()).toBe(0);
+      state.type = "wifi" as NetInfoStateType.wifi;
+      netInfoHandler(state);
+      expect(tasks[video].resume).toHaveBeenCalledTimes(1);
+      expect(tasks[thumb].resume).toHaveBeenCalledTimes(1);
     });
 
-    it("should only use one interval despite several errors", async () => {
+    it("should give network-held slots to urls the network suits", async () => {
       const queue = new DownloadQueue();
-      const doneMap: { [id: string]: DoneHandler } = {};
-      const errMap: { [id: string]: ErrorHandler } = {};
+      const urlMap = mockDistinctTasks();
+      const state = createNetState(true);
+      const video = "http://foo.com/video.mp4";
+      const thumb = "http://foo.com/thumb.jpg";
+      const doc = "http://foo.com/doc.pdf";
 
-      (download as jest.Mock).mockImplementation((spec: { id: string }) => {
-        // You need local copies to maintain different ids per object
-        const localTask = createBasicTask();
-        return Object.assign(localTask, {
-          id: spec.id,
-          done: jest.fn((handler: DoneHandler) => {
-            doneMap[spec.id] = handler;
-            return localTask;
-          }),
-          error: (handler: ErrorHandler) => {
-            errMap[spec.id] = handler;
-            return localTask;
-          },
-        });
+      await queue.init({
+        domain: "mydomain",
+        maxConcurrentDownloads: 1,
+        netInfoAddEventListener: addEventListener,
+        netInfoFetchState: fetch,
       });
-      await queue.init({ domain: "mydomain" });
-      await queue.addUrl("http://foo.com/a.mp3");
-      await queue.addUrl("http://moo.com/a.mp3");
+      await queue.addUrl(video, { allowedNetworkTypes: ["wifi"] });
+      await queue.addUrl(thumb);
+      expect(download).toHaveBeenCalledTimes(1);
 
-      expect(jest.getTimerCount()).toBe(0);
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      Object.values(errMap)[0]!({
-        error: "something went wrong",
-        errorCode: 500,
-      });
-      expect(jest.getTimerCount()).toBe(1); // The interval should be set
+      // On cellular, the video waits for wifi without keeping the thumb out
+      state.type = "cellular" as NetInfoStateType.cellular;
+      netInfoHandler(state);
+      expect(urlMap[video].pause).toHaveBeenCalledTimes(1);
+      expect(download).toHaveBeenCalledTimes(2);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: thumb })
+      );
 
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      Object.values(errMap)[1]!({
-        error: "something else went wrong",
-        errorCode: 403,
-      });
-      expect(jest.getTimerCount()).toBe(1);
+      // Wifi-only urls added meanwhile don't take the free slot either
+      await queue.addUrl(doc, { allowedNetworkTypes: ["wifi"] });
+      expect(download).toHaveBeenCalledTimes(2);
 
-      // Get downloads scheduled
-      await advanceThroughNextTimersAndPromises();
+      // Back on wifi, the video waits behind the doc for the thumb to finish
+      state.type = "wifi" as NetInfoStateType.wifi;
+      netInfoHandler(state);
+      expect(urlMap[video].resume).not.toHaveBeenCalled();
+      expect(await queue.getStatus(video)).toEqual(
+        expect.objectContaining({ state: "queued", position: 1 })
+      );
 
-      // Now pretend to finish one successfully.
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      Object.values(doneMap)[0]!({
+      // Flickering back and forth doesn't put it in line twice
+      state.type = "cellular" as NetInfoStateType.cellular;
+      netInfoHandler(state);
+      state.type = "wifi" as NetInfoStateType.wifi;
+      netInfoHandler(state);
+      expect(await queue.getStatus(video)).toEqual(
+        expect.objectContaining({ state: "queued", position: 1 })
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap[thumb]._done!({
         bytesDownloaded: 8675309,
         bytesTotal: 8675309,
       });
-      expect(jest.getTimerCount()).toBe(1); // Still need an interval the other.
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      Object.values(doneMap)[1]!({
+      expect(urlMap[video].resume).not.toHaveBeenCalled();
+      expect(download).toHaveBeenCalledTimes(3);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: doc })
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap[doc]._done!({
         bytesDownloaded: 8675309,
         bytesTotal: 8675309,
       });
-      expect(jest.getTimerCount()).toBe(0); // Now finally done
+      expect(urlMap[video].resume).toHaveBeenCalledTimes(1);
+      expect(download).toHaveBeenCalledTimes(3);
     });
 
-    it("should not be retrying while paused", async () => {
+    it("should leave network-held urls to the user's pause", async () => {
       const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const state = createNetState(true);
+      const video = "http://foo.com/video.mp4";
 
-      (download as jest.Mock).mockImplementation((spec: { id: string }) =>
-        Object.assign(task, {
-          id: spec.id,
-          error: (handler: ErrorHandler) => {
-            task._error = handler;
-            return task;
-          },
-        })
+      await queue.init({
+        domain: "mydomain",
+        netInfoAddEventListener: addEventListener,
+        netInfoFetchState: fetch,
+      });
+      await queue.addUrl(video, { allowedNetworkTypes: ["wifi"] });
+
+      state.type = "cellular" as NetInfoStateType.cellular;
+      netInfoHandler(state);
+      expect(tasks[video].pause).toHaveBeenCalledTimes(1);
+
+      queue.pauseAll();
+      state.type = "wifi" as NetInfoStateType.wifi;
+      netInfoHandler(state);
+      state.type = "cellular" as NetInfoStateType.cellular;
+      netInfoHandler(state);
+      state.type = "wifi" as NetInfoStateType.wifi;
+      netInfoHandler(state);
+      expect(tasks[video].pause).toHaveBeenCalledTimes(2);
+      expect(tasks[video].resume).not.toHaveBeenCalled();
+
+      // Nor does resuming while offline resume anything
+      netInfoHandler(createNetState(false));
+      queue.resumeAll();
+      expect(tasks[video].resume).not.toHaveBeenCalled();
+
+      netInfoHandler(state);
+      expect(tasks[video].resume).toHaveBeenCalledTimes(1);
+    });
+
+    it("should hold probed downloads that are too big for cellular", async () => {
+      const queue = new DownloadQueue();
+      const state = createNetState(true);
+
+      state.type = "cellular" as NetInfoStateType.cellular;
+      (fetch as jest.Mock).mockResolvedValueOnce(state);
+      await queue.init({
+        domain: "mydomain",
+        fetch: jest.fn().mockResolvedValue({
+          status: 200,
+          ok: true,
+          url: "",
+          headers: new Headers({ "Content-Length": "5000" }),
+        }),
+        netInfoAddEventListener: addEventListener,
+        netInfoFetchState: fetch,
+      });
+      await queue.addUrl("http://foo.com/a", {
+        probe: true,
+        maxCellularBytes: 1000,
+      });
+
+      expect(await queue.getStatus("http://foo.com/a")).toEqual(
+        expect.objectContaining({ state: "paused" })
+      );
+    });
+
+    it("should hold big downloads until they're off cellular", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const state = createNetState(true);
+      const small = "http://foo.com/small.mp3";
+      const big = "http://foo.com/big.mp3";
+      const known = "http://foo.com/known.mp3";
+
+      state.type = "cellular" as NetInfoStateType.cellular;
+      (fetch as jest.Mock).mockResolvedValueOnce(state);
+      await queue.init({
+        domain: "mydomain",
+        netInfoAddEventListener: addEventListener,
+        netInfoFetchState: fetch,
+      });
+      await queue.addUrl(small, { maxCellularBytes: 1000 });
+      await queue.addUrl(big, { maxCellularBytes: 1000 });
+      await queue.addUrl(known, {
+        maxCellularBytes: 1000,
+        expectedBytes: 5000,
+      });
+      expect(await queue.getStatus(known)).toEqual(
+        expect.objectContaining({ state: "paused" })
       );
+
+      const begin = (url: string, expectedBytes: number) =>
+        ((tasks[url].begin as jest.Mock).mock.calls[0][0] as BeginHandler)({
+          expectedBytes,
+          headers: {},
+        });
+
+      begin(small, 500);
+      begin(big, 5000);
+      expect(tasks[small].pause).not.toHaveBeenCalled();
+      expect(tasks[big].pause).toHaveBeenCalledTimes(1);
+
+      state.type = "wifi" as NetInfoStateType.wifi;
+      netInfoHandler(state);
+      expect(tasks[small].resume).not.toHaveBeenCalled();
+      expect(tasks[big].resume).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refuse per-url network policies without NetInfo", async () => {
+      const queue = new DownloadQueue();
+
       await queue.init({ domain: "mydomain" });
+      await expect(
+        queue.addUrl("http://foo.com/a.mp3", { allowedNetworkTypes: ["wifi"] })
+      ).rejects.toThrow();
+      await expect(
+        queue.addUrl("http://foo.com/a.mp3", { maxCellularBytes: 1000 })
+      ).rejects.toThrow();
+      await queue.addUrl("http://foo.com/a.mp3", { allowedNetworkTypes: [] });
+      expect(download).toHaveBeenCalledTimes(1);
+    });
+
+    it("should pause on expensive connections when asked", async () => {
+      const queue = new DownloadQueue();
+      const state = createNetState(true);
+
+      await queue.init({
+        domain: "mydomain",
+        pauseOnExpensiveConnections: true,
+        netInfoAddEventListener: addEventListener,
+        netInfoFetchState: fetch,
+      });
       await queue.addUrl("http://foo.com/a.mp3");
 
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      task._error!({ error: "something went wrong", errorCode: 500 });
-      expect(jest.getTimerCount()).toBe(1); // The interval should be set
+      netInfoHandler({
+        ...state,
+        details: { isConnectionExpensive: true },
+      } as NetInfoState);
+      expect(task.pause).toHaveBeenCalledTimes(1);
 
-      queue.pauseAll();
-      expect(jest.getTimerCount()).toBe(0);
+      netInfoHandler(state);
+      expect(task.resume).toHaveBeenCalledTimes(1);
+    });
 
-      queue.resumeAll();
-      expect(jest.getTimerCount()).toBe(1);
+    it("should wait for the internet to be reachable when asked", async () => {
+      const queue = new DownloadQueue();
+      const state = createNetState(true);
 
-      queue.terminate(); // Don't leave timers floating after this test
+      (fetch as jest.Mock).mockResolvedValueOnce(state);
+      await queue.init({
+        domain: "mydomain",
+        requireInternetReachable: true,
+        netInfoAddEventListener: addEventListener,
+        netInfoFetchState: fetch,
+      });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      netInfoHandler({ ...state, isInternetReachable: null } as NetInfoState);
+      expect(task.pause).toHaveBeenCalledTimes(1);
+      netInfoHandler({ ...state, isInternetReachable: false } as NetInfoState);
+      expect(task.pause).toHaveBeenCalledTimes(1);
+
+      netInfoHandler(state);
+      expect(task.resume).toHaveBeenCalledTimes(1);
     });
 
-    it("should cancel retries when terminated", async () => {
+    it("should only download on allowed cellular generations", async () => {
+      const queue = new DownloadQueue();
+      const cellular = (
+        cellularGeneration: NetInfoCellularGeneration | null
+      ): NetInfoState => ({
+        ...mock<NetInfoState>(),
+        isConnected: true,
+        isInternetReachable: true,
+        type: "cellular" as NetInfoStateType.cellular,
+        details: {
+          isConnectionExpensive: true,
+          cellularGeneration,
+          carrier: null,
+        },
+      });
+
+      await queue.init({
+        domain: "mydomain",
+        allowedCellularGenerations: ["4g", "5g"],
+        netInfoAddEventListener: addEventListener,
+        netInfoFetchState: fetch,
+      });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      netInfoHandler(cellular("3g" as NetInfoCellularGeneration));
+      expect(task.pause).toHaveBeenCalledTimes(1);
+
+      netInfoHandler(cellular("5g" as NetInfoCellularGeneration));
+      expect(task.resume).toHaveBeenCalledTimes(1);
+
+      // Unknown generations get the benefit of the doubt
+      netInfoHandler(cellular(null));
+      expect(task.pause).toHaveBeenCalledTimes(1);
+    });
+
+    it("should ask isNetworkAllowed about each url", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const state = createNetState(true);
+      const isNetworkAllowed = jest.fn(
+        (state: DownloadQueueNetInfoState, url: string) =>
+          state.type !== "cellular" || !url.endsWith(".mp4")
+      );
+
+      await queue.init({
+        domain: "mydomain",
+        isNetworkAllowed,
+        netInfoAddEventListener: addEventListener,
+        netInfoFetchState: fetch,
+      });
+      await queue.addUrl("http://foo.com/a.mp3");
+      await queue.addUrl("http://foo.com/a.mp4");
+
+      state.type = "cellular" as NetInfoStateType.cellular;
+      netInfoHandler(state);
+      expect(isNetworkAllowed).toHaveBeenCalledWith(
+        state,
+        "http://foo.com/a.mp4"
+      );
+      expect(tasks["http://foo.com/a.mp3"].pause).not.toHaveBeenCalled();
+      expect(tasks["http://foo.com/a.mp4"].pause).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refuse network conditions without netInfoAddEventListener", async () => {
+      await expect(
+        new DownloadQueue().init({
+          domain: "mydomain",
+          pauseOnExpensiveConnections: true,
+        })
+      ).rejects.toThrow();
+      await expect(
+        new DownloadQueue().init({
+          domain: "mydomain",
+          requireInternetReachable: true,
+        })
+      ).rejects.toThrow();
+      await expect(
+        new DownloadQueue().init({
+          domain: "mydomain",
+          allowedCellularGenerations: ["5g"],
+        })
+      ).rejects.toThrow();
+      await expect(
+        new DownloadQueue().init({
+          domain: "mydomain",
+          isNetworkAllowed: () => true,
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should refuse to set active network types without netInfoFetchState", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain" });
+      await expect(queue.setActiveNetworkTypes(["wifi"])).rejects.toThrow();
+    });
+
+    it("should do nothing when setting same active network types", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({
+        domain: "mydomain",
+        activeNetworkTypes: ["wifi", "ethernet"],
+        netInfoAddEventListener: addEventListener,
+        netInfoFetchState: fetch,
+      });
+      expect(addEventListener).toHaveBeenCalledTimes(1);
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      await queue.setActiveNetworkTypes(["ethernet", "wifi"]);
+      expect(fetch).toHaveBeenCalledTimes(1); // no change
+
+      await queue.setActiveNetworkTypes(["ethernet", "wifi", "cellular"]);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should update activeNetworkTypes to current conditions", async () => {
+      const queue = new DownloadQueue();
+      const state = createNetState(true);
+
+      await queue.init({
+        domain: "mydomain",
+        activeNetworkTypes: ["wifi", "ethernet"],
+        netInfoAddEventListener: addEventListener,
+        netInfoFetchState: fetch,
+      });
+
+      await queue.addUrl("http://foo.com/a.mp3");
+      expect(task.pause).not.toHaveBeenCalled();
+
+      state.type = "cellular" as NetInfoStateType.cellular;
+      netInfoHandler(state);
+      expect(task.pause).toHaveBeenCalledTimes(1);
+
+      // It should resume now that active network types have changed
+      (fetch as jest.Mock).mockResolvedValueOnce(state);
+      await queue.setActiveNetworkTypes(["bebop", "cellular"]);
+      expect(task.pause).toHaveBeenCalledTimes(1);
+      expect(task.resume).toHaveBeenCalledTimes(1);
+
+      // It should have no effect now that we're back to wifi
+      await queue.setActiveNetworkTypes(["ethernet", "wifi"]);
+      expect(task.pause).toHaveBeenCalledTimes(1);
+      expect(task.resume).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Retrying errored downloads", () => {
+    it("should retry errored downloads", async () => {
       const queue = new DownloadQueue();
 
       (download as jest.Mock).mockImplementation((spec: { id: string }) =>
         Object.assign(task, {
           id: spec.id,
+          done: jest.fn((handler: DoneHandler) => {
+            task._done = handler;
+            return task;
+          }),
           error: (handler: ErrorHandler) => {
             task._error = handler;
             return task;
@@ -2167,12 +3177,3243 @@ describe("DownloadQueue", () => {
       await queue.init({ domain: "mydomain" });
       await queue.addUrl("http://foo.com/a.mp3");
 
+      expect(download).toHaveBeenCalledTimes(1);
+      expect(jest.getTimerCount()).toBe(0);
+
       // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
       task._error!({ error: "something went wrong", errorCode: 500 });
       expect(jest.getTimerCount()).toBe(1); // The interval should be set
 
-      queue.terminate();
-      expect(jest.getTimerCount()).toBe(0); // The interval should be set
+      await advanceThroughNextTimersAndPromises();
+      expect(download).toHaveBeenCalledTimes(2); // Should have tried again
+
+      await advanceThroughNextTimersAndPromises();
+      // Previous task should still be active, so no more download() calls
+      expect(download).toHaveBeenCalledTimes(2);
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await task._done!({ bytesDownloaded: 8675309, bytesTotal: 8675309 });
+      // The interval should be cleared on successful downloads
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it("should only use one timer despite several errors", async () => {
+      const queue = new DownloadQueue();
+      const doneMap: { [id: string]: DoneHandler } = {};
+      const errMap: { [id: string]: ErrorHandler } = {};
+
+      (download as jest.Mock).mockImplementation((spec: { id: string }) => {
+        // You need local copies to maintain different ids per object
+        const localTask = createBasicTask();
+        return Object.assign(localTask, {
+          id: spec.id,
+          done: jest.fn((handler: DoneHandler) => {
+            doneMap[spec.id] = handler;
+            return localTask;
+          }),
+          error: (handler: ErrorHandler) => {
+            errMap[spec.id] = handler;
+            return localTask;
+          },
+        });
+      });
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+      await queue.addUrl("http://moo.com/a.mp3");
+
+      expect(jest.getTimerCount()).toBe(0);
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      Object.values(errMap)[0]!({
+        error: "something went wrong",
+        errorCode: 500,
+      });
+      expect(jest.getTimerCount()).toBe(1); // The timer should be set
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      Object.values(errMap)[1]!({
+        error: "something else went wrong",
+        errorCode: 503,
+      });
+      expect(jest.getTimerCount()).toBe(1);
+
+      // Get downloads scheduled. Both retries were due at the same time, so
+      // there's nothing left to wait for.
+      await advanceThroughNextTimersAndPromises();
+      expect(download).toHaveBeenCalledTimes(4);
+      expect(jest.getTimerCount()).toBe(0);
+
+      // Now pretend to finish one successfully.
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      Object.values(doneMap)[0]!({
+        bytesDownloaded: 8675309,
+        bytesTotal: 8675309,
+      });
+      expect(jest.getTimerCount()).toBe(0);
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      Object.values(doneMap)[1]!({
+        bytesDownloaded: 8675309,
+        bytesTotal: 8675309,
+      });
+      expect(jest.getTimerCount()).toBe(0); // Now finally done
+    });
+
+    it("should not be retrying while paused", async () => {
+      const queue = new DownloadQueue();
+
+      (download as jest.Mock).mockImplementation((spec: { id: string }) =>
+        Object.assign(task, {
+          id: spec.id,
+          error: (handler: ErrorHandler) => {
+            task._error = handler;
+            return task;
+          },
+        })
+      );
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      task._error!({ error: "something went wrong", errorCode: 500 });
+      expect(jest.getTimerCount()).toBe(1); // The interval should be set
+
+      queue.pauseAll();
+      expect(jest.getTimerCount()).toBe(0);
+
+      queue.resumeAll();
+      expect(jest.getTimerCount()).toBe(1);
+
+      queue.terminate(); // Don't leave timers floating after this test
+    });
+
+    it("should refuse nonsensical retry policies", async () => {
+      await expect(
+        new DownloadQueue().init({
+          domain: "mydomain",
+          retryPolicy: { maxAttempts: 0 },
+        })
+      ).rejects.toThrow();
+      await expect(
+        new DownloadQueue().init({
+          domain: "mydomain",
+          retryPolicy: { jitter: 1.5 },
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should back off exponentially", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+      const random = jest.spyOn(Math, "random").mockReturnValue(0.5);
+      const fail = () =>
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        urlMap["http://foo.com/a.mp3"]._error!({
+          error: "something went wrong",
+          errorCode: 500,
+        });
+
+      await queue.init({
+        domain: "mydomain",
+        retryPolicy: {
+          initialDelayMs: 1000,
+          multiplier: 2,
+          maxDelayMs: 3000,
+          jitter: 0.5,
+        },
+      });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      fail();
+      expect(setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 1000);
+      await advanceThroughNextTimersAndPromises();
+      expect(download).toHaveBeenCalledTimes(2);
+
+      fail();
+      expect(setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 2000);
+      await advanceThroughNextTimersAndPromises();
+
+      fail();
+      expect(setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 3000);
+      await advanceThroughNextTimersAndPromises();
+
+      random.mockReturnValue(1);
+      fail();
+      expect(setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 4500);
+
+      random.mockRestore();
+      queue.terminate(); // Don't leave timers floating after this test
+    });
+
+    it("should give up after too many failed attempts", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+      const handlers: DownloadQueueHandlers = {
+        onError: jest.fn(),
+        onGiveUp: jest.fn(),
+      };
+      const fail = async () => {
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        urlMap["http://foo.com/a.mp3"]._error!({
+          error: "something went wrong",
+          errorCode: 500,
+        });
+        // Give up notifications are sent once the spec's been persisted
+        await new Promise(jest.requireActual("timers").setImmediate);
+      };
+
+      await queue.init({
+        domain: "mydomain",
+        handlers,
+        retryPolicy: { maxAttempts: 3 },
+      });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      await fail();
+      await advanceThroughNextTimersAndPromises();
+      await fail();
+      expect(handlers.onGiveUp).not.toHaveBeenCalled();
+
+      // Attempts are persisted, so a relaunch doesn't start over
+      queue.terminate();
+      const relaunchQueue = new DownloadQueue();
+
+      await relaunchQueue.init({
+        domain: "mydomain",
+        handlers,
+        retryPolicy: { maxAttempts: 3 },
+      });
+      expect(download).toHaveBeenCalledTimes(3);
+
+      await fail();
+      expect(handlers.onError).toHaveBeenCalledTimes(3);
+      expect(handlers.onGiveUp).toHaveBeenCalledTimes(1);
+      expect(handlers.onGiveUp).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        expect.objectContaining({
+          message: "something went wrong",
+          category: "httpServer",
+          statusCode: 500,
+        })
+      );
+      expect(jest.getTimerCount()).toBe(0);
+      expect(await relaunchQueue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ failed: true, complete: false })
+      );
+
+      // Specs that gave up stay that way across launches
+      const finalQueue = new DownloadQueue();
+
+      await finalQueue.init({ domain: "mydomain" });
+      expect(download).toHaveBeenCalledTimes(3);
+      expect(await finalQueue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ failed: true })
+      );
+
+      // ... until they're explicitly retried
+      await finalQueue.retryUrl("http://foo.com/a.mp3");
+      expect(download).toHaveBeenCalledTimes(4);
+      expect(await finalQueue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ failed: false })
+      );
+    });
+
+    it("should give up on failed background tasks from previous launches", async () => {
+      const queue = new DownloadQueue();
+      const handlers: DownloadQueueHandlers = {
+        onGiveUp: jest.fn(),
+      };
+
+      task.state = "FAILED";
+      (checkForExistingDownloads as jest.Mock).mockReturnValue([task]);
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/foo`,
+        createTime: Date.now() - 1000,
+      });
+      await queue.init({
+        domain: "mydomain",
+        handlers,
+        retryPolicy: { maxAttempts: 1 },
+      });
+
+      expect(handlers.onGiveUp).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        expect.objectContaining({
+          message: "unknown error while backgrounded",
+          category: "unknown",
+        })
+      );
+      expect(jest.getTimerCount()).toBe(0);
+
+      // Re-adding a lazy-deleted url that had given up starts it afresh
+      await queue.removeUrl("http://foo.com/a.mp3", 0);
+      await queue.addUrl("http://foo.com/a.mp3");
+      expect(download).toHaveBeenCalledTimes(1);
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ failed: false })
+      );
+    });
+
+    it("should retry urls right away when asked", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+
+      (exists as jest.Mock).mockReturnValue(true);
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+      await queue.addUrl("http://boo.com/a.mp3");
+
+      // These have nothing to retry
+      await queue.retryUrl("http://never.com/added.mp3");
+      await queue.retryUrl("http://foo.com/a.mp3");
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap["http://boo.com/a.mp3"]._done!({
+        bytesDownloaded: 8675309,
+        bytesTotal: 8675309,
+      });
+      await queue.retryUrl("http://boo.com/a.mp3");
+      expect(download).toHaveBeenCalledTimes(2);
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      urlMap["http://foo.com/a.mp3"]._error!({
+        error: "something went wrong",
+        errorCode: 500,
+      });
+      expect(jest.getTimerCount()).toBe(1);
+
+      await queue.retryUrl("http://foo.com/a.mp3");
+      expect(download).toHaveBeenCalledTimes(3);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it("should not retry trailing errors for finished or removed urls", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+      const handlers: DownloadQueueHandlers = {
+        onError: jest.fn(),
+      };
+
+      await queue.init({ domain: "mydomain", handlers });
+      await queue.addUrl("http://foo.com/a.mp3");
+      await queue.addUrl("http://boo.com/a.mp3");
+      await queue.removeUrl("http://foo.com/a.mp3");
+      await queue.removeUrl("http://boo.com/a.mp3", 0);
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      urlMap["http://foo.com/a.mp3"]._error!({
+        error: "stopped",
+        errorCode: 500,
+      });
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      urlMap["http://boo.com/a.mp3"]._error!({
+        error: "stopped",
+        errorCode: 500,
+      });
+      expect(handlers.onError).toHaveBeenCalledTimes(2);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it("should give up right away on errors that aren't retryable", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+      const handlers: DownloadQueueHandlers = {
+        onError: jest.fn(),
+        onGiveUp: jest.fn(),
+      };
+
+      await queue.init({ domain: "mydomain", handlers });
+      await queue.addUrl("http://foo.com/a.mp3");
+      await queue.addUrl("http://boo.com/a.mp3");
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      urlMap["http://foo.com/a.mp3"]._error!({
+        error: "not found",
+        errorCode: 404,
+      });
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      urlMap["http://boo.com/a.mp3"]._error!({
+        error: "The Internet connection appears to be offline.",
+        errorCode: -1,
+      });
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      expect(handlers.onError).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        expect.any(DownloadQueueError)
+      );
+      expect(handlers.onError).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        expect.objectContaining({ category: "httpClient", retryable: false })
+      );
+      expect(handlers.onError).toHaveBeenCalledWith(
+        "http://boo.com/a.mp3",
+        expect.objectContaining({ category: "network", retryable: true })
+      );
+      expect(handlers.onGiveUp).toHaveBeenCalledTimes(1);
+      expect(handlers.onGiveUp).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        expect.objectContaining({ statusCode: 404 })
+      );
+
+      await advanceThroughNextTimersAndPromises();
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: "http://boo.com/a.mp3" })
+      );
+      expect(download).toHaveBeenCalledTimes(3);
+    });
+
+    it("should let you decide which errors are retryable", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+      const handlers: DownloadQueueHandlers = {
+        onGiveUp: jest.fn(),
+      };
+
+      await queue.init({
+        domain: "mydomain",
+        handlers,
+        isErrorRetryable: error => error.category !== "httpServer",
+      });
+      await queue.addUrl("http://foo.com/a.mp3");
+      await queue.addUrl("http://boo.com/a.mp3");
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      urlMap["http://foo.com/a.mp3"]._error!({
+        error: "not found",
+        errorCode: 404,
+      });
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      urlMap["http://boo.com/a.mp3"]._error!({
+        error: "internal server error",
+        errorCode: -1,
+      });
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      expect(handlers.onGiveUp).toHaveBeenCalledTimes(1);
+      expect(handlers.onGiveUp).toHaveBeenCalledWith(
+        "http://boo.com/a.mp3",
+        expect.objectContaining({ statusCode: 500 })
+      );
+      expect(jest.getTimerCount()).toBe(1); // foo's retry
+      queue.terminate(); // Don't leave timers floating after this test
+    });
+
+    it("should cancel retries for removed urls", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      urlMap["http://foo.com/a.mp3"]._error!({
+        error: "something went wrong",
+        errorCode: 500,
+      });
+      expect(jest.getTimerCount()).toBe(1);
+
+      await queue.removeUrl("http://foo.com/a.mp3");
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it("should hold retries for errors that happen while paused", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+      queue.pauseAll();
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      urlMap["http://foo.com/a.mp3"]._error!({
+        error: "something went wrong",
+        errorCode: 500,
+      });
+      expect(jest.getTimerCount()).toBe(0);
+
+      queue.resumeAll();
+      expect(jest.getTimerCount()).toBe(1);
+      queue.terminate(); // Don't leave timers floating after this test
+    });
+
+    it("should cancel retries when terminated", async () => {
+      const queue = new DownloadQueue();
+
+      (download as jest.Mock).mockImplementation((spec: { id: string }) =>
+        Object.assign(task, {
+          id: spec.id,
+          error: (handler: ErrorHandler) => {
+            task._error = handler;
+            return task;
+          },
+        })
+      );
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      task._error!({ error: "something went wrong", errorCode: 500 });
+      expect(jest.getTimerCount()).toBe(1); // The interval should be set
+
+      queue.terminate();
+      expect(jest.getTimerCount()).toBe(0); // The interval should be set
+    });
+  });
+
+  describe("Concurrency limit and priority", () => {
+    it("should refuse a limit below one", async () => {
+      const queue = new DownloadQueue();
+
+      await expect(
+        queue.init({ domain: "mydomain", maxConcurrentDownloads: 0 })
+      ).rejects.toThrow();
+    });
+
+    it("should only start as many downloads as allowed", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+
+      await queue.init({ domain: "mydomain", maxConcurrentDownloads: 2 });
+      await queue.setQueue([
+        "http://foo.com/a.mp3",
+        "http://boo.com/a.mp3",
+        "http://moo.com/a.mp3",
+        "http://shoo.com/a.mp3",
+      ]);
+      expect(download).toHaveBeenCalledTimes(2);
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap["http://foo.com/a.mp3"]._done!({
+        bytesDownloaded: 8675309,
+        bytesTotal: 8675309,
+      });
+      expect(download).toHaveBeenCalledTimes(3);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: "http://moo.com/a.mp3" })
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      urlMap["http://boo.com/a.mp3"]._error!({
+        error: "something went wrong",
+        errorCode: 500,
+      });
+      expect(download).toHaveBeenCalledTimes(4);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: "http://shoo.com/a.mp3" })
+      );
+
+      // The errored download has to wait for a free slot before retrying, no
+      // matter how many times the retry timer fires.
+      await advanceThroughNextTimersAndPromises();
+      await advanceThroughNextTimersAndPromises();
+      expect(download).toHaveBeenCalledTimes(4);
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap["http://moo.com/a.mp3"]._done!({
+        bytesDownloaded: 8675309,
+        bytesTotal: 8675309,
+      });
+      expect(download).toHaveBeenCalledTimes(5);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: "http://boo.com/a.mp3" })
+      );
+
+      queue.terminate(); // Don't leave timers floating after this test
+    });
+
+    it("should not start waiting downloads that were removed", async () => {
+      const queue = new DownloadQueue();
+
+      mockDistinctTasks();
+      await queue.init({ domain: "mydomain", maxConcurrentDownloads: 1 });
+      await queue.addUrl("http://foo.com/a.mp3");
+      await queue.addUrl("http://boo.com/a.mp3");
+      await queue.addUrl("http://moo.com/a.mp3");
+      expect(download).toHaveBeenCalledTimes(1);
+
+      await queue.removeUrl("http://boo.com/a.mp3");
+      expect(download).toHaveBeenCalledTimes(1);
+
+      await queue.removeUrl("http://foo.com/a.mp3");
+      expect(download).toHaveBeenCalledTimes(2);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: "http://moo.com/a.mp3" })
+      );
+    });
+
+    it("should start higher-priority downloads first", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+
+      await queue.init({ domain: "mydomain", maxConcurrentDownloads: 1 });
+      await queue.addUrl("http://foo.com/a.mp3", { priority: 10 });
+      await queue.addUrl("http://boo.com/a.mp3");
+      await queue.addUrl("http://moo.com/a.mp3", { priority: 5 });
+      await queue.addUrl("http://shoo.com/a.mp3", { priority: 5 });
+      expect(download).toHaveBeenCalledTimes(1);
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap["http://foo.com/a.mp3"]._done!({
+        bytesDownloaded: 8675309,
+        bytesTotal: 8675309,
+      });
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: "http://moo.com/a.mp3" })
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap["http://moo.com/a.mp3"]._done!({
+        bytesDownloaded: 8675309,
+        bytesTotal: 8675309,
+      });
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: "http://shoo.com/a.mp3" })
+      );
+    });
+
+    it("should preempt lower-priority downloads for promoted urls", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+
+      await queue.init({ domain: "mydomain", maxConcurrentDownloads: 2 });
+      await queue.setQueue([
+        "http://foo.com/a.mp3",
+        "http://boo.com/a.mp3",
+        "http://moo.com/a.mp3",
+      ]);
+      await queue.setPriority("http://foo.com/a.mp3", 1);
+      expect(download).toHaveBeenCalledTimes(2);
+
+      await queue.setPriority("http://moo.com/a.mp3", 3);
+      expect(download).toHaveBeenCalledTimes(3);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: "http://moo.com/a.mp3" })
+      );
+      // boo had the lowest priority, so it's the one that yields
+      expect(urlMap["http://boo.com/a.mp3"].stop).toHaveBeenCalledTimes(1);
+      expect(urlMap["http://foo.com/a.mp3"].stop).not.toHaveBeenCalled();
+
+      // New urls can preempt too
+      await queue.addUrl("http://shoo.com/a.mp3", { priority: 2 });
+      expect(download).toHaveBeenCalledTimes(4);
+      expect(urlMap["http://foo.com/a.mp3"].stop).toHaveBeenCalledTimes(1);
+
+      const statuses = await queue.getQueueStatus();
+      expect(statuses).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            url: "http://foo.com/a.mp3",
+            priority: 1,
+            position: 0,
+          }),
+          expect.objectContaining({
+            url: "http://boo.com/a.mp3",
+            priority: 0,
+            position: 1,
+          }),
+          expect.objectContaining({
+            url: "http://moo.com/a.mp3",
+            priority: 3,
+            position: undefined,
+          }),
+        ])
+      );
+
+      // Demoting a running url lets waiting ones ahead of it
+      await queue.setPriority("http://shoo.com/a.mp3", -1);
+      expect(urlMap["http://shoo.com/a.mp3"].stop).toHaveBeenCalledTimes(1);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: "http://foo.com/a.mp3" })
+      );
+      expect(await queue.getStatus("http://shoo.com/a.mp3")).toEqual(
+        expect.objectContaining({ priority: -1, position: 1 })
+      );
+    });
+
+    it("should update priorities of urls that are re-added", async () => {
+      const queue = new DownloadQueue();
+
+      mockDistinctTasks();
+      await queue.init({ domain: "mydomain", maxConcurrentDownloads: 1 });
+      await queue.addUrl("http://foo.com/a.mp3");
+      await queue.addUrl("http://boo.com/a.mp3");
+      await queue.addUrl("http://moo.com/a.mp3");
+      await queue.addUrl("http://moo.com/a.mp3", { priority: 2 });
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: "http://moo.com/a.mp3" })
+      );
+
+      await queue.removeUrl("http://boo.com/a.mp3", 0);
+      await queue.addUrl("http://boo.com/a.mp3", { priority: 4 });
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: "http://boo.com/a.mp3" })
+      );
+
+      // Re-adding without a priority leaves it alone
+      await queue.addUrl("http://boo.com/a.mp3");
+      expect(await queue.getStatus("http://boo.com/a.mp3")).toEqual(
+        expect.objectContaining({ priority: 4 })
+      );
+    });
+
+    it("should persist priorities across launches", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3", { priority: 7 });
+      await queue.setPriority("http://never.com/added.mp3", 3);
+
+      const relaunchQueue = new DownloadQueue();
+
+      await relaunchQueue.init({ domain: "mydomain" });
+      expect(await relaunchQueue.getQueueStatus()).toEqual([
+        expect.objectContaining({ url: "http://foo.com/a.mp3", priority: 7 }),
+      ]);
+    });
+
+    it("should pause revived tasks beyond the limit by priority", async () => {
+      const queue = new DownloadQueue();
+      const fooTask: TaskWithHandlers = Object.assign(createBasicTask(), {
+        id: "foo",
+        state: "DOWNLOADING",
+        done: jest.fn((handler: DoneHandler) => {
+          fooTask._done = handler;
+          return fooTask;
+        }),
+      });
+      const booTask = Object.assign(createBasicTask(), {
+        id: "boo",
+        state: "PAUSED",
+      });
+      mockDistinctTasks();
+
+      (checkForExistingDownloads as jest.Mock).mockReturnValue([
+        fooTask,
+        booTask,
+      ]);
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/foo`,
+        createTime: Date.now() - 1000,
+      });
+      await kvfs.write("/mydomain/boo", {
+        id: "boo",
+        url: "http://boo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/boo`,
+        createTime: Date.now() - 1000,
+        priority: 2,
+      });
+      await kvfs.write("/mydomain/moo", {
+        id: "moo",
+        url: "http://moo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/moo`,
+        createTime: Date.now() - 1000,
+      });
+      await queue.init({ domain: "mydomain", maxConcurrentDownloads: 1 });
+
+      // boo has the higher priority, so foo waits its turn, progress and all
+      expect(fooTask.stop).not.toHaveBeenCalled();
+      expect(booTask.stop).not.toHaveBeenCalled();
+      expect(fooTask.pause).toHaveBeenCalledTimes(2);
+      expect(booTask.pause).toHaveBeenCalledTimes(1);
+      expect(download).not.toHaveBeenCalled();
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ state: "queued", position: 0 })
+      );
+
+      booTask.state = "STOPPED";
+      await queue.removeUrl("http://boo.com/a.mp3");
+      expect(fooTask.resume).toHaveBeenCalledTimes(1);
+      expect(download).not.toHaveBeenCalled();
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await fooTask._done!({
+        bytesDownloaded: 8675309,
+        bytesTotal: 8675309,
+      });
+      expect(download).toHaveBeenCalledTimes(1);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: "moo" })
+      );
+    });
+  });
+
+  describe("Verifying downloaded files", () => {
+    it("should finish downloads that match what's expected", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+      const handlers: DownloadQueueHandlers = {
+        onDone: jest.fn(),
+        onError: jest.fn(),
+      };
+
+      (hash as jest.Mock).mockResolvedValue("abc123");
+      await queue.init({ domain: "mydomain", handlers });
+      await queue.addUrl("http://foo.com/a.mp3", {
+        expectedBytes: 8675309,
+        expectedHash: "ABC123",
+        hashAlgorithm: "md5",
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap["http://foo.com/a.mp3"]._done!({
+        bytesDownloaded: 8675309,
+        bytesTotal: 8675309,
+      });
+
+      const path = `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${urlMap["http://foo.com/a.mp3"].id}`;
+      expect(hash).toHaveBeenCalledWith(path, "md5");
+      expect(handlers.onError).not.toHaveBeenCalled();
+      expect(handlers.onDone).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        path
+      );
+    });
+
+    it("should delete and retry downloads that don't match", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+      const handlers: DownloadQueueHandlers = {
+        onDone: jest.fn(),
+        onError: jest.fn(),
+      };
+
+      (hash as jest.Mock).mockResolvedValue("abc123");
+      await queue.init({ domain: "mydomain", handlers });
+      await queue.addUrl("http://foo.com/a.mp3", { expectedBytes: 42 });
+      await queue.addUrl("http://boo.com/a.mp3", { expectedHash: "def456" });
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap["http://foo.com/a.mp3"]._done!({
+        bytesDownloaded: 8675309,
+        bytesTotal: 8675309,
+      });
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap["http://boo.com/a.mp3"]._done!({
+        bytesDownloaded: 8675309,
+        bytesTotal: 8675309,
+      });
+
+      expect(hash).toHaveBeenCalledWith(expect.any(String), "sha256");
+      expect(handlers.onDone).not.toHaveBeenCalled();
+      expect(handlers.onError).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        expect.objectContaining({
+          category: "integrity",
+          retryable: true,
+          message: "Expected 42 bytes but got 8675309",
+        })
+      );
+      expect(handlers.onError).toHaveBeenCalledWith(
+        "http://boo.com/a.mp3",
+        expect.objectContaining({
+          category: "integrity",
+          message: "Expected sha256 def456 but got abc123",
+        })
+      );
+      expect(unlink).toHaveBeenCalledWith(
+        `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${urlMap["http://foo.com/a.mp3"].id}`
+      );
+      expect(unlink).toHaveBeenCalledWith(
+        `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${urlMap["http://boo.com/a.mp3"].id}`
+      );
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ complete: false, failed: false })
+      );
+
+      await advanceThroughNextTimersAndPromises();
+      expect(download).toHaveBeenCalledTimes(4);
+    });
+
+    it("should treat files it can't check as mismatches", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+      const handlers: DownloadQueueHandlers = {
+        onError: jest.fn(),
+        onGiveUp: jest.fn(),
+      };
+
+      (stat as jest.Mock).mockRejectedValue(new Error("no such file"));
+      (unlink as jest.Mock).mockRejectedValue(new Error("no such file"));
+      await queue.init({
+        domain: "mydomain",
+        handlers,
+        retryPolicy: { maxAttempts: 1 },
+      });
+      await queue.addUrl("http://foo.com/a.mp3", { expectedBytes: 42 });
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap["http://foo.com/a.mp3"]._done!({
+        bytesDownloaded: 8675309,
+        bytesTotal: 8675309,
+      });
+
+      expect(handlers.onGiveUp).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        expect.objectContaining({
+          category: "integrity",
+          message: "Couldn't verify downloaded file: Error: no such file",
+        })
+      );
+    });
+
+    it("should verify downloads that finished in the background", async () => {
+      const queue = new DownloadQueue();
+      const handlers: DownloadQueueHandlers = {
+        onDone: jest.fn(),
+        onError: jest.fn(),
+      };
+
+      task.state = "DONE";
+      (checkForExistingDownloads as jest.Mock).mockReturnValue([task]);
+      (exists as jest.Mock).mockReturnValue(true);
+
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/foo`,
+        createTime: Date.now() - 1000,
+        finished: false,
+        expectedBytes: 42,
+      });
+      await queue.init({ domain: "mydomain", handlers });
+
+      expect(handlers.onDone).not.toHaveBeenCalled();
+      expect(handlers.onError).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        expect.objectContaining({ category: "integrity" })
+      );
+      expect(task.stop).toHaveBeenCalled();
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ complete: false })
+      );
+
+      await advanceThroughNextTimersAndPromises();
+      expect(download).toHaveBeenCalledTimes(1);
+    });
+
+    it("should re-verify finished files on init only when asked", async () => {
+      const handlers: DownloadQueueHandlers = {
+        onDone: jest.fn(),
+      };
+      const path = `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/foo`;
+
+      (exists as jest.Mock).mockReturnValue(true);
+      (hash as jest.Mock).mockResolvedValue("abc123");
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path,
+        createTime: Date.now() - 1000,
+        finished: true,
+        expectedHash: "def456",
+      });
+
+      let queue = new DownloadQueue();
+      await queue.init({ domain: "mydomain", handlers });
+      expect(hash).not.toHaveBeenCalled();
+      expect(handlers.onDone).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        path
+      );
+      expect(download).not.toHaveBeenCalled();
+      queue.terminate();
+
+      (hash as jest.Mock).mockResolvedValue("DEF456");
+      queue = new DownloadQueue();
+      await queue.init({ domain: "mydomain", handlers, verifyOnInit: true });
+      expect(hash).toHaveBeenCalledTimes(1);
+      expect(download).not.toHaveBeenCalled();
+      queue.terminate();
+
+      (hash as jest.Mock).mockResolvedValue("abc123");
+      queue = new DownloadQueue();
+      await queue.init({ domain: "mydomain", handlers, verifyOnInit: true });
+      expect(unlink).toHaveBeenCalledWith(path);
+      expect(download).toHaveBeenCalledTimes(1);
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ complete: false })
+      );
+    });
+  });
+
+  describe("Request headers", () => {
+    it("should send per-url headers", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3", {
+        headers: { "X-Foo": "bar" },
+      });
+
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({ headers: { "X-Foo": "bar" } })
+      );
+    });
+
+    it("should get fresh headers every time a download starts", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+      let tokenCount = 0;
+      const getHeaders = jest.fn(() =>
+        Promise.resolve({ Authorization: `Bearer ${++tokenCount}` })
+      );
+
+      await queue.init({ domain: "mydomain", getHeaders });
+      await queue.addUrl("http://foo.com/a.mp3", {
+        headers: { "X-Foo": "bar", Authorization: "stale" },
+      });
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      expect(getHeaders).toHaveBeenCalledWith("http://foo.com/a.mp3");
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: { "X-Foo": "bar", Authorization: "Bearer 1" },
+        })
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      urlMap["http://foo.com/a.mp3"]._error!({
+        error: "service unavailable",
+        errorCode: 503,
+      });
+      await advanceThroughNextTimersAndPromises();
+
+      expect(download).toHaveBeenCalledTimes(2);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          headers: { "X-Foo": "bar", Authorization: "Bearer 2" },
+        })
+      );
+    });
+
+    it("should get fresh headers for downloads restarted from previous launches", async () => {
+      const queue = new DownloadQueue();
+      const getHeaders = jest.fn(() =>
+        Promise.resolve({ Authorization: "Bearer fresh" })
+      );
+
+      task.state = "STOPPED";
+      (checkForExistingDownloads as jest.Mock).mockReturnValue([task]);
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/foo`,
+        createTime: Date.now() - 1000,
+        finished: false,
+      });
+      await queue.init({ domain: "mydomain", getHeaders });
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: "foo",
+          headers: { Authorization: "Bearer fresh" },
+        })
+      );
+    });
+
+    it("should hold download slots while waiting for headers", async () => {
+      const queue = new DownloadQueue();
+      const resolvers: ((headers: { [name: string]: string }) => void)[] = [];
+      const getHeaders = jest.fn(
+        () =>
+          new Promise<{ [name: string]: string }>(resolve =>
+            resolvers.push(resolve)
+          )
+      );
+
+      await queue.init({
+        domain: "mydomain",
+        getHeaders,
+        maxConcurrentDownloads: 1,
+      });
+      await queue.addUrl("http://foo.com/a.mp3");
+      await queue.addUrl("http://boo.com/a.mp3");
+
+      expect(getHeaders).toHaveBeenCalledTimes(1);
+      expect(download).not.toHaveBeenCalled();
+
+      // Removing the url while waiting frees its slot, and it never starts
+      await queue.removeUrl("http://foo.com/a.mp3");
+      expect(getHeaders).toHaveBeenCalledTimes(2);
+      resolvers[0]({});
+      resolvers[1]({});
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      expect(download).toHaveBeenCalledTimes(1);
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({ url: "http://boo.com/a.mp3" })
+      );
+    });
+
+    it("should retry downloads whose headers couldn't be gotten", async () => {
+      const queue = new DownloadQueue();
+      const handlers: DownloadQueueHandlers = {
+        onError: jest.fn(),
+      };
+      const rejecters: ((error: Error) => void)[] = [];
+      const getHeaders = jest.fn(
+        () =>
+          new Promise<{ [name: string]: string }>((resolve, reject) =>
+            rejecters.push(reject)
+          )
+      );
+
+      await queue.init({ domain: "mydomain", handlers, getHeaders });
+      await queue.addUrl("http://foo.com/a.mp3");
+      await queue.addUrl("http://boo.com/a.mp3");
+      // The second failure is for a url that's gone by the time it fails
+      await queue.removeUrl("http://boo.com/a.mp3");
+      rejecters[0](new Error("not logged in"));
+      rejecters[1](new Error("not logged in"));
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      expect(handlers.onError).toHaveBeenCalledTimes(1);
+      expect(handlers.onError).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        expect.objectContaining({
+          message: "Couldn't get headers: Error: not logged in",
+          category: "unknown",
+          retryable: true,
+        })
+      );
+      expect(download).not.toHaveBeenCalled();
+
+      getHeaders.mockResolvedValue({});
+      await advanceThroughNextTimersAndPromises();
+      expect(download).toHaveBeenCalledTimes(1);
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({ url: "http://foo.com/a.mp3" })
+      );
+    });
+  });
+
+  describe("File locations", () => {
+    it("should download under a custom base directory", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain", baseDirectory: "/caches" });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      expect(RNFS.mkdir).toHaveBeenCalledWith(
+        "/caches/mydomain",
+        expect.anything()
+      );
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({
+          destination: expect.stringMatching(
+            /^\/caches\/mydomain\/[^/]+\.partial$/
+          ),
+        })
+      );
+    });
+
+    it("should name files as asked", async () => {
+      const queue = new DownloadQueue();
+      const pathForSpec = jest.fn(
+        ({ id, extension }: DownloadQueuePathSpec) =>
+          `resolved-${id}.${extension}`
+      );
+      const base = `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain`;
+
+      await queue.init({ domain: "mydomain", urlToPath, pathForSpec });
+      await queue.addUrl("http://foo.com/a.mp3", { filename: "foo.mp3" });
+      await queue.addUrls(
+        [
+          { url: "http://boo.com/a.mp3", filename: "boo.mp3" },
+          "http://moo.com/a.mp3",
+        ],
+        { metadata: { episode: 3 } }
+      );
+
+      expect(pathForSpec).toHaveBeenCalledTimes(1);
+      expect(pathForSpec).toHaveBeenCalledWith({
+        id: expect.any(String),
+        url: "http://moo.com/a.mp3",
+        extension: "mp3",
+        metadata: { episode: 3 },
+      });
+
+      const { id } = pathForSpec.mock.calls[0][0];
+
+      expect((await queue.getQueueStatus()).map(status => status.path)).toEqual(
+        [`${base}/foo.mp3`, `${base}/boo.mp3`, `${base}/resolved-${id}.mp3`]
+      );
+    });
+
+    it("should refuse bad filenames", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3", { filename: "foo.mp3" });
+      (AsyncStorage.setItem as jest.Mock).mockClear();
+
+      await expect(
+        queue.addUrl("http://boo.com/a.mp3", { filename: "a/boo.mp3" })
+      ).rejects.toThrow("slashes");
+      await expect(
+        queue.addUrl("http://boo.com/a.mp3", { filename: "" })
+      ).rejects.toThrow("slashes");
+      await expect(
+        queue.addUrl("http://boo.com/a.mp3", { filename: "boo.mp3.partial" })
+      ).rejects.toThrow(".partial");
+      await expect(
+        queue.addUrl("http://boo.com/a.mp3", { filename: "boo.update" })
+      ).rejects.toThrow(".update");
+      await expect(
+        queue.addUrl("http://boo.com/a.mp3", { filename: "foo.mp3" })
+      ).rejects.toThrow("already in use");
+      await expect(
+        queue.addUrls(["http://boo.com/a.mp3", "http://moo.com/a.mp3"], {
+          filename: "boo.mp3",
+        })
+      ).rejects.toThrow("already in use");
+
+      expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+      expect(AsyncStorage.multiSet).not.toHaveBeenCalled();
+      expect(urlsOf(await queue.getQueueStatus())).toEqual([
+        "http://foo.com/a.mp3",
+      ]);
+    });
+
+    it("should keep files it named upon init", async () => {
+      const queue = new DownloadQueue();
+      const base = `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain`;
+
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: `${base}/episode.mp3`,
+        createTime: Date.now() - 1000,
+        finished: true,
+        filename: "episode.mp3",
+      });
+      (readdir as jest.Mock).mockReturnValue(["episode.mp3", "foo", "bar.mp3"]);
+      (exists as jest.Mock).mockReturnValue(true);
+
+      await queue.init({ domain: "mydomain" });
+
+      expect(unlink).toHaveBeenCalledTimes(1);
+      expect(unlink).toHaveBeenCalledWith(`${base}/bar.mp3`);
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ path: `${base}/episode.mp3`, complete: true })
+      );
+    });
+
+    it("should move files it named along with the base directory", async () => {
+      const queue = new DownloadQueue();
+
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: "/old/mydomain/episode.mp3",
+        createTime: Date.now() - 1000,
+        finished: false,
+        filename: "episode.mp3",
+      });
+
+      await queue.init({ domain: "mydomain", baseDirectory: "/new" });
+
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({
+          destination: "/new/mydomain/episode.mp3.partial",
+        })
+      );
+    });
+  });
+
+  describe("Cache storage", () => {
+    const cacheBase = "/usr/fake/myCaches/DownloadQueue/mydomain";
+
+    async function seedCachedSpec() {
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: `${cacheBase}/foo`,
+        createTime: Date.now() - 1000,
+        finished: true,
+        storageClass: "cache",
+        metadata: { episode: 1 },
+      });
+    }
+
+    it("should download cached urls to the cache directory", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3", { storageClass: "cache" });
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      expect(RNFS.mkdir).toHaveBeenCalledWith(cacheBase);
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({
+          destination: expect.stringMatching(
+            new RegExp(`^${cacheBase}/[^/]+$`)
+          ),
+        })
+      );
+    });
+
+    it("should hold download slots while making the cache directory", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain", maxConcurrentDownloads: 1 });
+      await queue.addUrls(
+        [
+          "http://foo.com/a.mp3",
+          "http://boo.com/a.mp3",
+          "http://moo.com/a.mp3",
+        ],
+        { storageClass: "cache" }
+      );
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      expect(download).toHaveBeenCalledTimes(1);
+      expect(await queue.getStatus("http://boo.com/a.mp3")).toEqual(
+        expect.objectContaining({ state: "queued" })
+      );
+    });
+
+    it("should not download urls removed while making the cache directory", async () => {
+      const queue = new DownloadQueue();
+      let finishMkdir: () => void = () => undefined;
+
+      await queue.init({ domain: "mydomain", maxConcurrentDownloads: 1 });
+      (RNFS.mkdir as jest.Mock).mockImplementationOnce(
+        () => new Promise<void>(resolve => (finishMkdir = resolve))
+      );
+      await queue.addUrl("http://foo.com/a.mp3", { storageClass: "cache" });
+      await queue.removeUrl("http://foo.com/a.mp3", 0);
+      finishMkdir();
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      expect(download).not.toHaveBeenCalled();
+
+      // Its slot's free for the next url
+      (RNFS.mkdir as jest.Mock).mockRejectedValueOnce(new Error("EACCES"));
+      await queue.addUrl("http://boo.com/a.mp3", { storageClass: "cache" });
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({ url: "http://boo.com/a.mp3" })
+      );
+    });
+
+    it("should download purged files again upon init", async () => {
+      const queue = new DownloadQueue();
+      const onEvicted = jest.fn();
+
+      mockDistinctTasks();
+      await seedCachedSpec();
+      await kvfs.write("/mydomain/boo", {
+        id: "boo",
+        url: "http://boo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/boo`,
+        createTime: Date.now() - 1000,
+        finished: true,
+      });
+
+      await queue.init({ domain: "mydomain", handlers: { onEvicted } });
+
+      // Missing persistent files aren't the OS's doing, so aren't evictions
+      expect(onEvicted).toHaveBeenCalledTimes(1);
+      expect(onEvicted).toHaveBeenCalledWith("http://foo.com/a.mp3", {
+        episode: 1,
+      });
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: "foo",
+          destination: `${cacheBase}/foo.partial`,
+        })
+      );
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "boo" })
+      );
+    });
+
+    it("should remove purged urls if asked", async () => {
+      const queue = new DownloadQueue();
+      const onEvicted = jest.fn();
+      const onWillRemove = jest.fn(() => Promise.resolve());
+
+      await seedCachedSpec();
+      await queue.init({
+        domain: "mydomain",
+        handlers: { onEvicted, onWillRemove },
+        evictionPolicy: "remove",
+      });
+
+      expect(onEvicted).toHaveBeenCalledWith("http://foo.com/a.mp3", {
+        episode: 1,
+      });
+      expect(onWillRemove).toHaveBeenCalledWith("http://foo.com/a.mp3", {
+        episode: 1,
+      });
+      expect(download).not.toHaveBeenCalled();
+      expect(await queue.getQueueStatus()).toEqual([]);
+
+      // Nothing's left to purge the next time around
+      const onAppStateChange = (AppState.addEventListener as jest.Mock).mock
+        .calls[0][1] as (state: string) => void;
+
+      onAppStateChange("active");
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(onWillRemove).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report purge checks that fail in the foreground", async () => {
+      const queue = new DownloadQueue();
+      const onError = jest.fn();
+      const onWillRemove = jest.fn(() => Promise.reject(new Error("busy")));
+
+      await seedCachedSpec();
+      (exists as jest.Mock).mockReturnValue(true);
+      await queue.init({
+        domain: "mydomain",
+        handlers: { onError, onWillRemove },
+        evictionPolicy: "remove",
+      });
+
+      const onAppStateChange = (AppState.addEventListener as jest.Mock).mock
+        .calls[0][1] as (state: string) => void;
+
+      (exists as jest.Mock).mockRejectedValueOnce(new Error("disk error"));
+      onAppStateChange("active");
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(onError).toHaveBeenLastCalledWith(
+        "http://foo.com/a.mp3",
+        expect.objectContaining({
+          message: "Couldn't check for a purged file: Error: disk error",
+        }),
+        { episode: 1 }
+      );
+
+      (exists as jest.Mock).mockReturnValue(false);
+      onAppStateChange("active");
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(onWillRemove).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenLastCalledWith(
+        "http://foo.com/a.mp3",
+        expect.objectContaining({
+          message: "Couldn't recover a purged file: Error: busy",
+        }),
+        { episode: 1 }
+      );
+    });
+
+    it("should notice purges when coming to the foreground", async () => {
+      const queue = new DownloadQueue();
+      const onEvicted = jest.fn();
+
+      await seedCachedSpec();
+      (exists as jest.Mock).mockReturnValue(true);
+      await queue.init({ domain: "mydomain", handlers: { onEvicted } });
+
+      const onAppStateChange = (AppState.addEventListener as jest.Mock).mock
+        .calls[0][1] as (state: string) => void;
+
+      (exists as jest.Mock).mockReturnValue(false);
+      onAppStateChange("background");
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(onEvicted).not.toHaveBeenCalled();
+
+      onAppStateChange("active");
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(onEvicted).toHaveBeenCalledWith("http://foo.com/a.mp3", {
+        episode: 1,
+      });
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "foo" })
+      );
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ complete: false })
+      );
+
+      const { remove } = (AppState.addEventListener as jest.Mock).mock
+        .results[0].value as { remove: jest.Mock };
+
+      queue.terminate();
+      expect(remove).toHaveBeenCalled();
+    });
+
+    it("should only delete orphans from the cache directory when it's used", async () => {
+      const queue = new DownloadQueue();
+
+      (readdir as jest.Mock).mockImplementation((dir: string) =>
+        dir === cacheBase ? ["foo", "old"] : []
+      );
+      await queue.init({ domain: "mydomain" });
+      expect(readdir).not.toHaveBeenCalledWith(cacheBase);
+      queue.terminate();
+
+      await seedCachedSpec();
+      (exists as jest.Mock).mockReturnValue(true);
+      await queue.init({ domain: "mydomain" });
+
+      expect(unlink).toHaveBeenCalledTimes(1);
+      expect(unlink).toHaveBeenCalledWith(`${cacheBase}/old`);
+    });
+  });
+
+  describe("Revalidating", () => {
+    const base = `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain`;
+    let fetchSpy: jest.SpyInstance;
+
+    function mockHead(
+      status: number,
+      headers: { [name: string]: string } = {}
+    ) {
+      fetchSpy.mockResolvedValue({
+        status,
+        ok: status >= 200 && status < 300,
+        statusText: status === 404 ? "Not Found" : "",
+        headers: new Headers(headers),
+      });
+    }
+
+    function mockDownloadFile(statusCode: number) {
+      (RNFS.downloadFile as jest.Mock).mockReturnValue({
+        jobId: 1,
+        promise: Promise.resolve({ jobId: 1, statusCode, bytesWritten: 10 }),
+      });
+    }
+
+    async function seedFinishedSpec(validators: object = { etag: '"v1"' }) {
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: `${base}/foo`,
+        createTime: Date.now() - 1000,
+        finished: true,
+        finishTime: Date.now() - 1000,
+        ...validators,
+      });
+      (exists as jest.Mock).mockReturnValue(true);
+    }
+
+    beforeEach(() => {
+      fetchSpy = jest.spyOn(global, "fetch");
+      mockHead(304);
+      mockDownloadFile(200);
+    });
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+    });
+
+    it("should remember the server's validators upon finishing", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      const task = tasks["http://foo.com/a.mp3"];
+      const begin = (task.begin as jest.Mock).mock.calls[0][0] as BeginHandler;
+
+      begin({
+        expectedBytes: 100,
+        headers: {
+          ETag: '"v1"',
+          "last-modified": "Wed, 21 Oct 2015 07:28:00 GMT",
+          "Content-Length": "100",
+        },
+      });
+      await task._done?.({ bytesDownloaded: 100, bytesTotal: 100 });
+
+      const [{ value }] = await kvfs.readMulti<{ id: string }>("/mydomain/*");
+
+      expect(value).toEqual(
+        expect.objectContaining({
+          etag: '"v1"',
+          lastModified: "Wed, 21 Oct 2015 07:28:00 GMT",
+          contentLength: 100,
+        })
+      );
+    });
+
+    it("should leave unchanged files alone", async () => {
+      const queue = new DownloadQueue();
+      const onUpdated = jest.fn();
+
+      await seedFinishedSpec({
+        etag: '"v1"',
+        lastModified: "Wed, 21 Oct 2015 07:28:00 GMT",
+      });
+      await queue.init({
+        domain: "mydomain",
+        handlers: { onUpdated },
+        getHeaders: () => Promise.resolve({ Authorization: "Bearer 1" }),
+      });
+
+      await expect(queue.revalidate("http://foo.com/a.mp3")).resolves.toBe(
+        false
+      );
+      expect(fetchSpy).toHaveBeenCalledWith("http://foo.com/a.mp3", {
+        method: "HEAD",
+        headers: {
+          Authorization: "Bearer 1",
+          "If-None-Match": '"v1"',
+          "If-Modified-Since": "Wed, 21 Oct 2015 07:28:00 GMT",
+        },
+      });
+      expect(RNFS.downloadFile).not.toHaveBeenCalled();
+      expect(onUpdated).not.toHaveBeenCalled();
+    });
+
+    it("should swap in files that changed", async () => {
+      const queue = new DownloadQueue();
+      const onUpdated = jest.fn();
+      let finishDownload: (result: { statusCode: number }) => void = () =>
+        undefined;
+
+      await seedFinishedSpec();
+      await queue.init({ domain: "mydomain", handlers: { onUpdated } });
+      mockHead(200, { ETag: '"v2"' });
+      (RNFS.downloadFile as jest.Mock).mockReturnValue({
+        jobId: 1,
+        promise: new Promise(resolve => (finishDownload = resolve)),
+      });
+
+      const revalidated = queue.revalidate("http://foo.com/a.mp3");
+
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(RNFS.downloadFile).toHaveBeenCalledWith({
+        fromUrl: "http://foo.com/a.mp3",
+        toFile: `${base}/foo.update`,
+        headers: {},
+      });
+      // The old file's still served while the new one downloads
+      expect(await queue.getAvailableUrl("http://foo.com/a.mp3")).toBe(
+        `${base}/foo`
+      );
+      expect(unlink).not.toHaveBeenCalled();
+
+      finishDownload({ statusCode: 200 });
+      await expect(revalidated).resolves.toBe(true);
+      expect(unlink).toHaveBeenCalledWith(`${base}/foo`);
+      expect(RNFS.moveFile).toHaveBeenCalledWith(
+        `${base}/foo.update`,
+        `${base}/foo`
+      );
+      expect(onUpdated).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        `${base}/foo`
+      );
+
+      const [{ value }] = await kvfs.readMulti<{ id: string }>("/mydomain/*");
+
+      expect(value).toEqual(
+        expect.objectContaining({ etag: '"v2"', revalidateTime: Date.now() })
+      );
+    });
+
+    it("should compare whichever validators it has", async () => {
+      const lastModified = "Wed, 21 Oct 2015 07:28:00 GMT";
+      const cases: [object, { [name: string]: string }, boolean][] = [
+        [{ lastModified }, { "Last-Modified": lastModified }, false],
+        [{ lastModified }, { "Last-Modified": "yesterday" }, true],
+        [{ contentLength: 100 }, { "Content-Length": "100" }, false],
+        [{ contentLength: 100 }, { "Content-Length": "200" }, true],
+        [{}, { ETag: '"v1"' }, false],
+      ];
+
+      for (const [validators, headers, changed] of cases) {
+        const queue = new DownloadQueue();
+
+        await seedFinishedSpec(validators);
+        await queue.init({ domain: "mydomain" });
+        mockHead(200, headers);
+        await expect(queue.revalidate("http://foo.com/a.mp3")).resolves.toBe(
+          changed
+        );
+        queue.terminate();
+        await kvfs.rmAllForce();
+      }
+    });
+
+    it("should only revalidate finished urls", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      await expect(queue.revalidate("http://foo.com/a.mp3")).resolves.toBe(
+        false
+      );
+      await expect(queue.revalidate("http://boo.com/a.mp3")).resolves.toBe(
+        false
+      );
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it("should report failures", async () => {
+      const queue = new DownloadQueue();
+
+      await seedFinishedSpec();
+      await queue.init({ domain: "mydomain" });
+
+      mockHead(404);
+      await expect(
+        queue.revalidate("http://foo.com/a.mp3")
+      ).rejects.toMatchObject({ category: "httpClient", statusCode: 404 });
+
+      mockHead(200, { ETag: '"v2"' });
+      mockDownloadFile(503);
+      await expect(
+        queue.revalidate("http://foo.com/a.mp3")
+      ).rejects.toMatchObject({ category: "httpServer", statusCode: 503 });
+      expect(unlink).toHaveBeenCalledWith(`${base}/foo.update`);
+      expect(RNFS.moveFile).not.toHaveBeenCalled();
+    });
+
+    it("should drop updates to urls removed in the meantime", async () => {
+      const queue = new DownloadQueue();
+      const onUpdated = jest.fn();
+
+      await seedFinishedSpec();
+      await queue.init({ domain: "mydomain", handlers: { onUpdated } });
+      mockHead(200, { ETag: '"v2"' });
+      (RNFS.downloadFile as jest.Mock).mockImplementation(() => ({
+        jobId: 1,
+        promise: queue
+          .removeUrl("http://foo.com/a.mp3")
+          .then(() => ({ statusCode: 200 })),
+      }));
+      (unlink as jest.Mock).mockRejectedValue(new Error("no such file"));
+
+      await expect(queue.revalidate("http://foo.com/a.mp3")).resolves.toBe(
+        false
+      );
+      expect(unlink).toHaveBeenCalledWith(`${base}/foo.update`);
+      expect(RNFS.moveFile).not.toHaveBeenCalled();
+      expect(onUpdated).not.toHaveBeenCalled();
+    });
+
+    it("should clean up after updates that fail to download", async () => {
+      const queue = new DownloadQueue();
+
+      await seedFinishedSpec();
+      await queue.init({ domain: "mydomain" });
+      mockHead(200, { ETag: '"v2"' });
+      (RNFS.downloadFile as jest.Mock).mockReturnValue({
+        jobId: 1,
+        promise: Promise.reject(new Error("offline")),
+      });
+
+      await expect(queue.revalidate("http://foo.com/a.mp3")).rejects.toThrow(
+        "offline"
+      );
+      expect(unlink).toHaveBeenCalledTimes(1);
+      expect(unlink).toHaveBeenCalledWith(`${base}/foo.update`);
+    });
+
+    it("should move updates straight over the old file on Android", async () => {
+      const queue = new DownloadQueue();
+
+      Platform.OS = "android";
+      await seedFinishedSpec();
+      await queue.init({ domain: "mydomain" });
+      mockHead(200, { ETag: '"v2"' });
+
+      await expect(queue.revalidate("http://foo.com/a.mp3")).resolves.toBe(
+        true
+      );
+      expect(unlink).not.toHaveBeenCalled();
+      expect(RNFS.moveFile).toHaveBeenCalledWith(
+        `${base}/foo.update`,
+        `${base}/foo`
+      );
+      Platform.OS = "ios";
+    });
+
+    it("should delete updates left over from previous launches", async () => {
+      const queue = new DownloadQueue();
+
+      await seedFinishedSpec();
+      (readdir as jest.Mock).mockReturnValue(["foo", "foo.update"]);
+      await queue.init({ domain: "mydomain" });
+
+      expect(unlink).toHaveBeenCalledTimes(1);
+      expect(unlink).toHaveBeenCalledWith(`${base}/foo.update`);
+    });
+
+    it("should keep finished files that are named like updates", async () => {
+      const queue = new DownloadQueue();
+
+      await kvfs.write("/mydomain/notes", {
+        id: "notes",
+        url: "http://foo.com/notes.txt",
+        path: `${base}/notes.update`,
+        filename: "notes.update",
+        createTime: Date.now() - 1000,
+        finished: true,
+        finishTime: Date.now(),
+      });
+      (exists as jest.Mock).mockReturnValue(true);
+      (readdir as jest.Mock).mockReturnValue(["notes.update"]);
+      await queue.init({ domain: "mydomain" });
+
+      expect(unlink).not.toHaveBeenCalled();
+    });
+
+    it("should revalidate stale files on its own", async () => {
+      const queue = new DownloadQueue();
+      const onError = jest.fn();
+
+      await seedFinishedSpec();
+      // Specs from before finishTime was kept are stale straight away
+      await kvfs.write("/mydomain/boo", {
+        id: "boo",
+        url: "http://boo.com/a.mp3",
+        path: `${base}/boo`,
+        createTime: Date.now() - 1000,
+        finished: true,
+      });
+      fetchSpy.mockRejectedValue(new Error("offline"));
+      await queue.init({
+        domain: "mydomain",
+        handlers: { onError },
+        revalidateAfterMs: 1000,
+      });
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledWith(
+        "http://boo.com/a.mp3",
+        expect.objectContaining({
+          message: "Couldn't revalidate: Error: offline",
+        })
+      );
+
+      const onAppStateChange = (AppState.addEventListener as jest.Mock).mock
+        .calls[0][1] as (state: string) => void;
+
+      // Failed revalidations are tried again next time
+      mockHead(304);
+      onAppStateChange("active");
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(fetchSpy).toHaveBeenCalledTimes(4);
+      expect(onError).toHaveBeenCalledTimes(2);
+
+      // But successful ones aren't, until they're stale again
+      onAppStateChange("active");
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(fetchSpy).toHaveBeenCalledTimes(4);
+
+      jest.setSystemTime(Date.now() + 1000);
+      onAppStateChange("active");
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(fetchSpy).toHaveBeenCalledTimes(6);
+    });
+
+    it("should share one request among simultaneous revalidations", async () => {
+      const queue = new DownloadQueue();
+
+      await seedFinishedSpec();
+      await queue.init({ domain: "mydomain" });
+
+      await Promise.all([
+        queue.revalidate("http://foo.com/a.mp3"),
+        queue.revalidate("http://foo.com/a.mp3"),
+      ]);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Probing", () => {
+    const base = `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain`;
+    const headFetch = jest.fn();
+
+    function mockHead(
+      status: number,
+      headers: { [name: string]: string } = {},
+      url = ""
+    ) {
+      headFetch.mockResolvedValue({
+        status,
+        ok: status >= 200 && status < 300,
+        statusText: status === 404 ? "Not Found" : "",
+        url,
+        headers: new Headers(headers),
+      });
+    }
+
+    beforeEach(() => {
+      headFetch.mockReset();
+      mockHead(
+        200,
+        {
+          "Content-Length": "60",
+          "Content-Type": "audio/mpeg; charset=binary",
+          ETag: '"v1"',
+        },
+        "http://cdn.foo.com/a"
+      );
+    });
+
+    it("should report what the server says about urls", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({
+        domain: "mydomain",
+        fetch: headFetch,
+        getHeaders: () => Promise.resolve({ Authorization: "Bearer 1" }),
+      });
+
+      expect(
+        await queue.probe("http://foo.com/a", { "X-Client": "app" })
+      ).toEqual({
+        url: "http://foo.com/a",
+        finalUrl: "http://cdn.foo.com/a",
+        contentLength: 60,
+        contentType: "audio/mpeg; charset=binary",
+        etag: '"v1"',
+        lastModified: undefined,
+      });
+      expect(headFetch).toHaveBeenCalledWith("http://foo.com/a", {
+        method: "HEAD",
+        headers: { "X-Client": "app", Authorization: "Bearer 1" },
+      });
+      expect(await kvfs.readMulti("/mydomain/*")).toHaveLength(0);
+
+      // Without redirects, some fetch()es leave `url` empty
+      mockHead(200);
+      expect(await queue.probe("http://foo.com/a")).toEqual(
+        expect.objectContaining({
+          finalUrl: "http://foo.com/a",
+          contentLength: undefined,
+          contentType: undefined,
+        })
+      );
+
+      mockHead(404);
+      await expect(queue.probe("http://foo.com/a")).rejects.toMatchObject({
+        category: "httpClient",
+        statusCode: 404,
+      });
+    });
+
+    it("should keep what it learns about queued urls", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+
+      await queue.init({ domain: "mydomain", fetch: headFetch });
+      await queue.addUrl("http://foo.com/a", {
+        headers: { "X-Client": "app" },
+      });
+      await queue.addUrl("http://boo.com/a");
+      await queue.probe("http://foo.com/a");
+
+      expect(headFetch).toHaveBeenCalledWith("http://foo.com/a", {
+        method: "HEAD",
+        headers: { "X-Client": "app" },
+      });
+      expect(queue.getAggregateProgress().bytesTotal).toBe(60);
+
+      const specs = await kvfs.readMulti<{ url: string }>("/mydomain/*");
+      const foo = specs.find(({ value }) => value?.url === "http://foo.com/a");
+
+      expect(foo?.value).toEqual(
+        expect.objectContaining({
+          finalUrl: "http://cdn.foo.com/a",
+          contentLength: 60,
+          contentType: "audio/mpeg; charset=binary",
+          etag: '"v1"',
+        })
+      );
+
+      // Finished files keep the validators they were downloaded with
+      await tasks["http://boo.com/a"]._done?.({
+        bytesDownloaded: 10,
+        bytesTotal: 10,
+      });
+      await queue.probe("http://boo.com/a");
+
+      const boo = (await kvfs.readMulti<{ url: string }>("/mydomain/*")).find(
+        ({ value }) => value?.url === "http://boo.com/a"
+      );
+
+      expect(boo?.value).not.toHaveProperty("etag");
+    });
+
+    it("should probe urls as they're added, if asked", async () => {
+      const queue = new DownloadQueue();
+      const pathForSpec = jest.fn(({ id, extension }) => `${id}.${extension}`);
+
+      await queue.init({ domain: "mydomain", fetch: headFetch, pathForSpec });
+      await queue.addUrls(["http://foo.com/a", "http://boo.com/a"], {
+        probe: true,
+      });
+
+      expect(headFetch).toHaveBeenCalledTimes(2);
+      expect(pathForSpec).toHaveBeenCalledWith(
+        expect.objectContaining({ url: "http://foo.com/a", extension: "mp3" })
+      );
+      expect(queue.getAggregateProgress().bytesTotal).toBe(120);
+
+      // Urls already in the queue needn't be probed again
+      await queue.addUrl("http://foo.com/a", { probe: true });
+      expect(headFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should name files after their content type if the url can't", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({
+        domain: "mydomain",
+        fetch: headFetch,
+        urlToPath: url => new URL(url).pathname,
+      });
+      await queue.addUrl("http://foo.com/a", { probe: true });
+      await queue.addUrl("http://foo.com/b.m4a", { probe: true });
+      mockHead(200, { "Content-Type": "application/x-unheard-of" });
+      await queue.addUrl("http://foo.com/c", { probe: true });
+      await queue.addUrl("http://foo.com/d");
+
+      const pathOf = async (url: string) =>
+        (await queue.getStatus(url))?.path ?? "";
+
+      expect(await pathOf("http://foo.com/a")).toMatch(
+        new RegExp(`^${base}/[^/.]+\\.mp3$`)
+      );
+      expect(await pathOf("http://foo.com/b.m4a")).toMatch(/\.m4a$/);
+      expect(await pathOf("http://foo.com/c")).toMatch(
+        new RegExp(`^${base}/[^/.]+$`)
+      );
+      expect(await pathOf("http://foo.com/d")).toMatch(
+        new RegExp(`^${base}/[^/.]+$`)
+      );
+    });
+
+    it("should add urls whose probes fail all the same", async () => {
+      const queue = new DownloadQueue();
+      const fetchSpy = jest
+        .spyOn(global, "fetch")
+        .mockRejectedValue(new Error("offline"));
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a", { probe: true });
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({ url: "http://foo.com/a" })
+      );
+      fetchSpy.mockRestore();
+    });
+
+    it("should hold probed downloads that won't fit", async () => {
+      const queue = new DownloadQueue();
+      const onInsufficientStorage = jest.fn();
+
+      (getFSInfo as jest.Mock).mockResolvedValue({
+        freeSpace: 100,
+        totalSpace: 1000,
+      });
+      await queue.init({
+        domain: "mydomain",
+        fetch: headFetch,
+        handlers: { onInsufficientStorage },
+        storageReserveBytes: 50,
+      });
+      await queue.addUrl("http://foo.com/a", { probe: true });
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      expect(download).not.toHaveBeenCalled();
+      expect(onInsufficientStorage).toHaveBeenCalledWith(
+        "http://foo.com/a",
+        110,
+        100
+      );
+      queue.terminate();
+    });
+
+    it("should revalidate with the fetch it's given", async () => {
+      const queue = new DownloadQueue();
+
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a",
+        path: `${base}/foo`,
+        createTime: Date.now() - 1000,
+        finished: true,
+        etag: '"v1"',
+      });
+      (exists as jest.Mock).mockReturnValue(true);
+      await queue.init({ domain: "mydomain", fetch: headFetch });
+
+      await expect(queue.revalidate("http://foo.com/a")).resolves.toBe(false);
+      expect(headFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Partial downloads", () => {
+    const base = `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain`;
+
+    it("should only move downloads into place once they're done", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const onDone = jest.fn();
+
+      await queue.init({ domain: "mydomain", handlers: { onDone } });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      const { path } = (await queue.getStatus(
+        "http://foo.com/a.mp3"
+      )) as DownloadQueueStatus;
+
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({ destination: `${path}.partial` })
+      );
+      expect(RNFS.moveFile).not.toHaveBeenCalled();
+
+      (RNFS.moveFile as jest.Mock).mockImplementation(() => {
+        expect(onDone).not.toHaveBeenCalled();
+        return Promise.resolve();
+      });
+      (exists as jest.Mock).mockImplementation(
+        (existing: string) => existing === `${path}.partial`
+      );
+      await tasks["http://foo.com/a.mp3"]._done?.({
+        bytesDownloaded: 100,
+        bytesTotal: 100,
+      });
+
+      expect(unlink).not.toHaveBeenCalled();
+      expect(RNFS.moveFile).toHaveBeenCalledWith(`${path}.partial`, path);
+      expect(onDone).toHaveBeenCalledWith("http://foo.com/a.mp3", path);
+    });
+
+    it("should fail downloads it can't move into place", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const onDone = jest.fn();
+      const onError = jest.fn();
+
+      await queue.init({ domain: "mydomain", handlers: { onDone, onError } });
+      await queue.addUrl("http://foo.com/a.mp3");
+      (RNFS.moveFile as jest.Mock).mockRejectedValueOnce(new Error("EACCES"));
+      await tasks["http://foo.com/a.mp3"]._done?.({
+        bytesDownloaded: 100,
+        bytesTotal: 100,
+      });
+
+      expect(onDone).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        expect.objectContaining({
+          category: "unknown",
+          message: expect.stringContaining("EACCES"),
+        })
+      );
+      expect((await queue.getStatus("http://foo.com/a.mp3"))?.complete).toBe(
+        false
+      );
+    });
+
+    it("should keep files that older versions downloaded in place", async () => {
+      const queue = new DownloadQueue();
+      const onDone = jest.fn();
+
+      (checkForExistingDownloads as jest.Mock).mockReturnValue([task]);
+      await kvfs.write("/mydomain/foo", {
+        id: task.id,
+        url: "http://foo.com/a.mp3",
+        path: `${base}/foo`,
+        createTime: Date.now() - 1000,
+        finished: false,
+      });
+      task.state = "DOWNLOADING";
+      await queue.init({ domain: "mydomain", handlers: { onDone } });
+
+      // The upgraded task downloaded straight to the path, not to a partial
+      (exists as jest.Mock).mockImplementation(
+        (path: string) => path === `${base}/foo`
+      );
+      const done = (task.done as jest.Mock).mock.calls[0][0] as DoneHandler;
+      await done({ bytesDownloaded: 100, bytesTotal: 100 });
+
+      expect(RNFS.moveFile).not.toHaveBeenCalled();
+      expect(unlink).not.toHaveBeenCalled();
+      expect(onDone).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        `${base}/foo`
+      );
+    });
+
+    it("should replace files already in place", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      const { path } = (await queue.getStatus(
+        "http://foo.com/a.mp3"
+      )) as DownloadQueueStatus;
+
+      (exists as jest.Mock).mockReturnValue(true);
+      await tasks["http://foo.com/a.mp3"]._done?.({
+        bytesDownloaded: 100,
+        bytesTotal: 100,
+      });
+
+      expect(unlink).toHaveBeenCalledWith(path);
+      expect(RNFS.moveFile).toHaveBeenCalledWith(`${path}.partial`, path);
+      expect((unlink as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(
+        (RNFS.moveFile as jest.Mock).mock.invocationCallOrder[0]
+      );
+    });
+
+    it("should delete stale partials upon init", async () => {
+      const queue = new DownloadQueue();
+
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: `${base}/foo`,
+        createTime: Date.now() - 1000,
+        finished: false,
+      });
+      await kvfs.write("/mydomain/boo", {
+        id: "boo",
+        url: "http://boo.com/a.mp3",
+        path: `${base}/boo`,
+        createTime: Date.now() - 1000,
+        finished: true,
+      });
+      (exists as jest.Mock).mockReturnValue(true);
+      (readdir as jest.Mock).mockReturnValue([
+        "foo.partial",
+        "boo",
+        "boo.partial",
+        "old.partial",
+      ]);
+
+      await queue.init({ domain: "mydomain" });
+
+      expect(unlink).toHaveBeenCalledTimes(2);
+      expect(unlink).toHaveBeenCalledWith(`${base}/boo.partial`);
+      expect(unlink).toHaveBeenCalledWith(`${base}/old.partial`);
+    });
+
+    it("should keep finished files that are named like partials", async () => {
+      const queue = new DownloadQueue();
+
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: `${base}/ep1.partial`,
+        filename: "ep1.partial",
+        createTime: Date.now() - 1000,
+        finished: true,
+      });
+      (exists as jest.Mock).mockReturnValue(true);
+      (readdir as jest.Mock).mockReturnValue(["ep1.partial"]);
+
+      await queue.init({ domain: "mydomain" });
+      expect(unlink).not.toHaveBeenCalled();
+
+      const relaunchedQueue = new DownloadQueue();
+
+      await relaunchedQueue.init({ domain: "mydomain" });
+      expect(unlink).not.toHaveBeenCalled();
+      await expect(
+        relaunchedQueue.getAvailableUrl("http://foo.com/a.mp3")
+      ).resolves.toBe(`${base}/ep1.partial`);
+    });
+  });
+
+  describe("Storage limit", () => {
+    it("should refuse a negative limit", async () => {
+      const queue = new DownloadQueue();
+
+      await expect(
+        queue.init({ domain: "mydomain", maxStorageBytes: -1 })
+      ).rejects.toThrow();
+    });
+
+    it("should evict the least recently used files beyond the limit", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+      const handlers: DownloadQueueHandlers = {
+        onWillRemove: jest.fn(() => Promise.resolve()),
+      };
+
+      (stat as jest.Mock).mockReturnValue({ size: 10 });
+      await queue.init({ domain: "mydomain", handlers, maxStorageBytes: 25 });
+      await queue.addUrl("http://foo.com/a.mp3");
+      await queue.addUrl("http://boo.com/a.mp3");
+      await queue.addUrl("http://moo.com/a.mp3", { pinned: true });
+      await queue.addUrl("http://zoo.com/a.mp3");
+
+      for (const url of ["http://foo.com/a.mp3", "http://boo.com/a.mp3"]) {
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+        await urlMap[url]._done!({ bytesDownloaded: 10, bytesTotal: 10 });
+        jest.setSystemTime(Date.now() + 1000);
+      }
+      (exists as jest.Mock).mockReturnValue(true);
+      expect(await queue.getAvailableUrl("http://foo.com/a.mp3")).toBe(
+        `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${urlMap["http://foo.com/a.mp3"].id}`
+      );
+      jest.setSystemTime(Date.now() + 1000);
+      expect(handlers.onWillRemove).not.toHaveBeenCalled();
+
+      // foo was used more recently than boo, so boo goes first
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap["http://moo.com/a.mp3"]._done!({
+        bytesDownloaded: 10,
+        bytesTotal: 10,
+      });
+      expect(handlers.onWillRemove).toHaveBeenCalledTimes(1);
+      expect(handlers.onWillRemove).toHaveBeenCalledWith(
+        "http://boo.com/a.mp3"
+      );
+      expect(unlink).toHaveBeenCalledWith(
+        `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/${urlMap["http://boo.com/a.mp3"].id}`
+      );
+      expect(await queue.getStatus("http://boo.com/a.mp3")).toBeNull();
+
+      // The pinned url is never evicted, even though it's older than zoo
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap["http://zoo.com/a.mp3"]._done!({
+        bytesDownloaded: 10,
+        bytesTotal: 10,
+      });
+      expect(handlers.onWillRemove).toHaveBeenCalledTimes(2);
+      expect(handlers.onWillRemove).toHaveBeenLastCalledWith(
+        "http://foo.com/a.mp3"
+      );
+      expect(await queue.getStatus("http://moo.com/a.mp3")).toEqual(
+        expect.objectContaining({ complete: true, pinned: true })
+      );
+      expect(await queue.getStatus("http://zoo.com/a.mp3")).toEqual(
+        expect.objectContaining({ complete: true, pinned: false })
+      );
+    });
+
+    it("should not count files it can't find", async () => {
+      const queue = new DownloadQueue();
+      const handlers: DownloadQueueHandlers = {
+        onWillRemove: jest.fn(() => Promise.resolve()),
+      };
+
+      (download as jest.Mock).mockImplementation(() =>
+        Object.assign(task, {
+          done: jest.fn((handler: DoneHandler) => {
+            task._done = handler;
+            return task;
+          }),
+        })
+      );
+      (stat as jest.Mock).mockRejectedValue(new Error("no such file"));
+      await queue.init({ domain: "mydomain", handlers, maxStorageBytes: 0 });
+      await queue.addUrl("http://foo.com/a.mp3");
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await task._done!({ bytesDownloaded: 10, bytesTotal: 10 });
+
+      expect(handlers.onWillRemove).not.toHaveBeenCalled();
+    });
+
+    it("should enforce the limit on init", async () => {
+      const queue = new DownloadQueue();
+      const handlers: DownloadQueueHandlers = {
+        onWillRemove: jest.fn(() => Promise.resolve()),
+      };
+
+      // One finished in a previous launch, the other finished in the background
+      task.state = "DONE";
+      (checkForExistingDownloads as jest.Mock).mockReturnValue([task]);
+      (exists as jest.Mock).mockReturnValue(true);
+      (stat as jest.Mock).mockReturnValue({ size: 10 });
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/foo`,
+        createTime: Date.now() - 1000,
+        finished: false,
+      });
+      await kvfs.write("/mydomain/boo", {
+        id: "boo",
+        url: "http://boo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/boo`,
+        createTime: Date.now() - 1000,
+        finished: true,
+      });
+      await queue.init({ domain: "mydomain", handlers, maxStorageBytes: 15 });
+
+      expect(stat).toHaveBeenCalledWith(
+        `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/foo`
+      );
+      expect(handlers.onWillRemove).toHaveBeenCalledTimes(1);
+      expect(await queue.getQueueStatus()).toHaveLength(1);
+    });
+
+    it("should report urls it fails to evict", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+      const handlers: DownloadQueueHandlers = {
+        onWillRemove: jest.fn(() => Promise.reject(new Error("busy"))),
+        onError: jest.fn(),
+      };
+
+      (exists as jest.Mock).mockReturnValue(true);
+      (stat as jest.Mock).mockReturnValue({ size: 10 });
+      await kvfs.write("/mydomain/boo", {
+        id: "boo",
+        url: "http://boo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/boo`,
+        createTime: Date.now() - 1000,
+        finished: true,
+      });
+      await kvfs.write("/mydomain/moo", {
+        id: "moo",
+        url: "http://moo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/moo`,
+        createTime: Date.now() - 1000,
+        finished: true,
+      });
+      await queue.init({ domain: "mydomain", handlers, maxStorageBytes: 15 });
+
+      // Failing to evict one url moves on to the next
+      expect(handlers.onWillRemove).toHaveBeenCalledTimes(2);
+      expect(handlers.onError).toHaveBeenCalledTimes(2);
+      expect(handlers.onError).toHaveBeenCalledWith(
+        "http://boo.com/a.mp3",
+        expect.any(DownloadQueueError)
+      );
+      expect(handlers.onError).toHaveBeenCalledWith(
+        "http://moo.com/a.mp3",
+        expect.any(DownloadQueueError)
+      );
+
+      await queue.addUrl("http://foo.com/a.mp3");
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await urlMap["http://foo.com/a.mp3"]._done!({
+        bytesDownloaded: 10,
+        bytesTotal: 10,
+      });
+      expect(handlers.onError).toHaveBeenCalledTimes(5);
+      expect(await queue.getQueueStatus()).toHaveLength(3);
+    });
+
+    it("should evict newly unpinned urls when over the limit", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+      const handlers: DownloadQueueHandlers = {
+        onWillRemove: jest
+          .fn()
+          .mockRejectedValueOnce(new Error("busy"))
+          .mockResolvedValue(undefined),
+        onError: jest.fn(),
+      };
+
+      (stat as jest.Mock).mockReturnValue({ size: 10 });
+      await queue.init({ domain: "mydomain", handlers, maxStorageBytes: 15 });
+      await queue.addUrl("http://foo.com/a.mp3", { pinned: true });
+      await queue.addUrl("http://boo.com/a.mp3", { pinned: true });
+      for (const url of ["http://foo.com/a.mp3", "http://boo.com/a.mp3"]) {
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+        await urlMap[url]._done!({ bytesDownloaded: 10, bytesTotal: 10 });
+      }
+      expect(handlers.onWillRemove).not.toHaveBeenCalled();
+
+      await queue.setPinned("http://nope.com/a.mp3", false);
+      await queue.setPinned("http://foo.com/a.mp3", false);
+      expect(handlers.onError).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        expect.objectContaining({
+          message: "Couldn't evict: Error: busy",
+          category: "unknown",
+        })
+      );
+      expect(await queue.getStatus("http://foo.com/a.mp3")).not.toBeNull();
+
+      // A failed eviction doesn't stop later ones
+      await queue.setPinned("http://boo.com/a.mp3", true);
+      expect(handlers.onWillRemove).toHaveBeenCalledTimes(2);
+      expect(handlers.onWillRemove).toHaveBeenLastCalledWith(
+        "http://foo.com/a.mp3"
+      );
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toBeNull();
+    });
+  });
+
+  describe("Free space guard", () => {
+    it("should hold downloads until there's room for them", async () => {
+      const queue = new DownloadQueue();
+      const handlers: DownloadQueueHandlers = {
+        onInsufficientStorage: jest.fn(),
+      };
+
+      (getFSInfo as jest.Mock).mockResolvedValue({
+        freeSpace: 100,
+        totalSpace: 1000,
+      });
+      await queue.init({
+        domain: "mydomain",
+        handlers,
+        storageReserveBytes: 50,
+      });
+      await queue.addUrl("http://foo.com/a.mp3", { expectedBytes: 60 });
+      await queue.addUrl("http://boo.com/a.mp3");
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      expect(download).toHaveBeenCalledTimes(1);
+      expect(download).toHaveBeenCalledWith(
+        expect.objectContaining({ url: "http://boo.com/a.mp3" })
+      );
+      expect(handlers.onInsufficientStorage).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        110,
+        100
+      );
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ waitingForSpace: true })
+      );
+      expect(await queue.getStatus("http://boo.com/a.mp3")).toEqual(
+        expect.objectContaining({ waitingForSpace: false })
+      );
+
+      // Still no room after a while, so nothing changes
+      await advanceThroughNextTimersAndPromises();
+      expect(download).toHaveBeenCalledTimes(1);
+      expect(handlers.onInsufficientStorage).toHaveBeenCalledTimes(1);
+      expect(jest.getTimerCount()).toBe(1);
+
+      (getFSInfo as jest.Mock).mockResolvedValue({
+        freeSpace: 200,
+        totalSpace: 1000,
+      });
+      await queue.removeUrl("http://boo.com/a.mp3");
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(download).toHaveBeenCalledTimes(2);
+      expect(download).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: "http://foo.com/a.mp3" })
+      );
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ waitingForSpace: false })
+      );
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it("should not hold download slots for downloads waiting for space", async () => {
+      const queue = new DownloadQueue();
+      const urlMap = mockDistinctTasks();
+      let resolveFSInfo: (info: { freeSpace: number }) => void = () =>
+        undefined;
+
+      (getFSInfo as jest.Mock).mockResolvedValue({ freeSpace: 10 });
+      await queue.init({
+        domain: "mydomain",
+        maxConcurrentDownloads: 1,
+        storageReserveBytes: 0,
+      });
+      await queue.addUrl("http://foo.com/a.mp3", { expectedBytes: 100 });
+      await queue.addUrl("http://boo.com/a.mp3");
+      await queue.addUrl("http://moo.com/a.mp3", { expectedBytes: 100 });
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(Object.keys(urlMap)).toEqual(["http://boo.com/a.mp3"]);
+
+      // When it's time to check again, foo gets back in line behind moo
+      await advanceThroughNextTimersAndPromises();
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ waitingForSpace: true, position: 1 })
+      );
+
+      // foo's already in line, so removing moo doesn't start it twice
+      await queue.removeUrl("http://moo.com/a.mp3");
+
+      // Removing boo starts foo's space check, which is still going when the
+      // file deletion triggers another one
+      (getFSInfo as jest.Mock).mockImplementation(
+        () => new Promise(resolve => (resolveFSInfo = resolve))
+      );
+      await queue.removeUrl("http://boo.com/a.mp3");
+      expect(getFSInfo).toHaveBeenCalledTimes(3);
+
+      resolveFSInfo({ freeSpace: 1000 });
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(Object.keys(urlMap)).toEqual([
+        "http://boo.com/a.mp3",
+        "http://foo.com/a.mp3",
+      ]);
+    });
+
+    it("should stop checking for space when terminated", async () => {
+      const queue = new DownloadQueue();
+
+      (getFSInfo as jest.Mock).mockResolvedValue({ freeSpace: 10 });
+      await queue.init({ domain: "mydomain", storageReserveBytes: 0 });
+      await queue.addUrl("http://foo.com/a.mp3", { expectedBytes: 100 });
+      await queue.addUrl("http://boo.com/a.mp3", { expectedBytes: 100 });
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      // One timer checks for all of them
+      expect(jest.getTimerCount()).toBe(1);
+
+      queue.terminate();
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it("should use sizes seen in previous attempts", async () => {
+      const queue = new DownloadQueue();
+      const handlers: DownloadQueueHandlers = {
+        onInsufficientStorage: jest.fn(),
+      };
+
+      Object.assign(task, {
+        id: "foo",
+        begin: jest.fn((handler: BeginHandler) => {
+          task._begin = handler;
+          return task;
+        }),
+        error: jest.fn((handler: ErrorHandler) => {
+          task._error = handler;
+          return task;
+        }),
+      });
+      (download as jest.Mock).mockImplementation((spec: { id: string }) =>
+        Object.assign(task, { id: spec.id })
+      );
+      (getFSInfo as jest.Mock)
+        .mockRejectedValueOnce(new Error("unavailable"))
+        .mockResolvedValue({ freeSpace: 100 });
+      await queue.init({
+        domain: "mydomain",
+        handlers,
+        storageReserveBytes: 0,
+      });
+      await queue.addUrl("http://foo.com/a.mp3");
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      // We couldn't check, so we went ahead anyway
+      expect(download).toHaveBeenCalledTimes(1);
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      task._begin!({ expectedBytes: 500, headers: {} });
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      task._error!({ error: "No space left on device", errorCode: -1 });
+      await advanceThroughNextTimersAndPromises();
+
+      expect(download).toHaveBeenCalledTimes(1);
+      expect(handlers.onInsufficientStorage).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3",
+        500,
+        100
+      );
+    });
+  });
+
+  describe("Metadata", () => {
+    it("should keep metadata with urls, even across launches", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3", {
+        metadata: { episode: 1, title: "Pilot" },
+      });
+      await queue.addUrl("http://boo.com/a.mp3");
+
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ metadata: { episode: 1, title: "Pilot" } })
+      );
+      expect(
+        (await queue.getStatus("http://boo.com/a.mp3"))?.metadata
+      ).toBeUndefined();
+
+      const relaunchQueue = new DownloadQueue();
+
+      await relaunchQueue.init({ domain: "mydomain" });
+      expect(await relaunchQueue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ metadata: { episode: 1, title: "Pilot" } })
+      );
+    });
+
+    it("should pass metadata to handlers and listeners", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const handlers = {
+        onBegin: jest.fn(),
+        onProgress: jest.fn(),
+        onDone: jest.fn(),
+        onError: jest.fn(),
+        onGiveUp: jest.fn(),
+        onWillRemove: jest.fn(() => Promise.resolve()),
+      };
+      const onDone = jest.fn();
+      const foo = "http://foo.com/a.mp3";
+      const boo = "http://boo.com/a.mp3";
+      const metadata = { episode: 1 };
+
+      (exists as jest.Mock).mockResolvedValue(true);
+      queue.on("done", onDone);
+      await queue.init({
+        domain: "mydomain",
+        handlers,
+        retryPolicy: { maxAttempts: 1 },
+      });
+      await queue.addUrls([foo, boo], { metadata });
+
+      ((tasks[foo].begin as jest.Mock).mock.calls[0][0] as BeginHandler)({
+        expectedBytes: 100,
+        headers: {},
+      });
+      ((tasks[foo].progress as jest.Mock).mock.calls[0][0] as ProgressHandler)({
+        bytesDownloaded: 50,
+        bytesTotal: 100,
+      });
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await tasks[foo]._done!({ bytesDownloaded: 100, bytesTotal: 100 });
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      tasks[boo]._error!({ error: "Not Found", errorCode: 404 });
+      await advanceThroughNextTimersAndPromises();
+      await queue.removeUrl(foo);
+
+      expect(handlers.onBegin).toHaveBeenCalledWith(foo, 100, metadata);
+      expect(handlers.onProgress).toHaveBeenCalledWith(
+        foo,
+        0.5,
+        50,
+        100,
+        metadata
+      );
+      expect(handlers.onDone).toHaveBeenCalledWith(
+        foo,
+        expect.any(String),
+        metadata
+      );
+      expect(onDone).toHaveBeenCalledWith(
+        expect.objectContaining({ url: foo, metadata })
+      );
+      expect(handlers.onError).toHaveBeenCalledWith(
+        boo,
+        expect.any(DownloadQueueError),
+        metadata
+      );
+      expect(handlers.onGiveUp).toHaveBeenCalledWith(
+        boo,
+        expect.any(DownloadQueueError),
+        metadata
+      );
+      expect(handlers.onWillRemove).toHaveBeenCalledWith(foo, metadata);
+    });
+
+    it("should update metadata", async () => {
+      const queue = new DownloadQueue();
+      const onQueueChange = jest.fn();
+
+      await queue.init({ domain: "mydomain", handlers: { onQueueChange } });
+      await queue.addUrl("http://foo.com/a.mp3", {
+        metadata: { episode: 1, title: "Pilot" },
+      });
+      await queue.updateMetadata("http://foo.com/a.mp3", { title: "Intro" });
+      await queue.updateMetadata("http://boo.com/a.mp3", { title: "Nope" });
+
+      expect((await queue.getStatus("http://foo.com/a.mp3"))?.metadata).toEqual(
+        { episode: 1, title: "Intro" }
+      );
+      expect(await queue.getStatus("http://boo.com/a.mp3")).toBeNull();
+      expect(onQueueChange).toHaveBeenCalledTimes(2);
+
+      const relaunchQueue = new DownloadQueue();
+
+      await relaunchQueue.init({ domain: "mydomain" });
+      expect(
+        (await relaunchQueue.getStatus("http://foo.com/a.mp3"))?.metadata
+      ).toEqual({ episode: 1, title: "Intro" });
+    });
+
+    it("should replace metadata when urls are added again", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3", { metadata: { episode: 1 } });
+      await queue.addUrl("http://boo.com/a.mp3", { metadata: { episode: 2 } });
+      await queue.removeUrl("http://boo.com/a.mp3", 0);
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      expect((await queue.getStatus("http://foo.com/a.mp3"))?.metadata).toEqual(
+        { episode: 1 }
+      );
+
+      await queue.addUrls([
+        { url: "http://foo.com/a.mp3", metadata: { episode: 3 } },
+        { url: "http://boo.com/a.mp3" },
+      ]);
+      expect(await queue.getQueueStatus()).toEqual([
+        expect.objectContaining({
+          url: "http://foo.com/a.mp3",
+          metadata: { episode: 3 },
+        }),
+        expect.objectContaining({
+          url: "http://boo.com/a.mp3",
+          metadata: { episode: 2 },
+        }),
+      ]);
+    });
+
+    it("should take metadata in setQueue", async () => {
+      const queue = new DownloadQueue();
+
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3", { metadata: { episode: 1 } });
+
+      expect(
+        await queue.setQueue([
+          { url: "http://foo.com/a.mp3", metadata: { episode: 2 } },
+          { url: "http://boo.com/a.mp3", metadata: { episode: 3 } },
+          "http://moo.com/a.mp3",
+        ])
+      ).toEqual({
+        added: ["http://boo.com/a.mp3", "http://moo.com/a.mp3"],
+        removed: [],
+        unchanged: ["http://foo.com/a.mp3"],
+      });
+      expect(
+        (await queue.getQueueStatus()).map(status => status.metadata)
+      ).toEqual([{ episode: 2 }, { episode: 3 }, undefined]);
+    });
+  });
+
+  describe("Throttling progress", () => {
+    function progressOf(task: TaskWithHandlers): ProgressHandler {
+      return (task.progress as jest.Mock).mock.calls[0][0] as ProgressHandler;
+    }
+
+    it("should report progress at most every so often", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const onProgress = jest.fn();
+      const start = Date.now();
+
+      await queue.init({
+        domain: "mydomain",
+        handlers: { onProgress },
+        minProgressIntervalMs: 1000,
+      });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      const progress = progressOf(tasks["http://foo.com/a.mp3"]);
+
+      progress({ bytesDownloaded: 10, bytesTotal: 100 });
+      jest.setSystemTime(start + 500);
+      progress({ bytesDownloaded: 20, bytesTotal: 100 });
+      jest.setSystemTime(start + 1000);
+      progress({ bytesDownloaded: 30, bytesTotal: 100 });
+      // Finishing is always reported
+      progress({ bytesDownloaded: 100, bytesTotal: 100 });
+
+      expect(onProgress.mock.calls.map(call => call[2])).toEqual([10, 30, 100]);
+    });
+
+    it("should report progress only once it's changed enough", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const onProgress = jest.fn();
+
+      await queue.init({
+        domain: "mydomain",
+        handlers: { onProgress },
+        minProgressDelta: 0.1,
+      });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      const progress = progressOf(tasks["http://foo.com/a.mp3"]);
+
+      progress({ bytesDownloaded: 10, bytesTotal: 100 });
+      progress({ bytesDownloaded: 15, bytesTotal: 100 });
+      progress({ bytesDownloaded: 20, bytesTotal: 100 });
+      progress({ bytesDownloaded: 25, bytesTotal: 100 });
+
+      expect(onProgress.mock.calls.map(call => call[2])).toEqual([10, 20]);
+    });
+
+    it("should batch progress from every url", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const onProgressBatch = jest.fn();
+      const foo = "http://foo.com/a.mp3";
+      const boo = "http://boo.com/a.mp3";
+
+      await queue.init({ domain: "mydomain", handlers: { onProgressBatch } });
+      await queue.addUrls([foo, boo]);
+
+      progressOf(tasks[foo])({ bytesDownloaded: 10, bytesTotal: 100 });
+      progressOf(tasks[boo])({ bytesDownloaded: 20, bytesTotal: 100 });
+      progressOf(tasks[foo])({ bytesDownloaded: 30, bytesTotal: 100 });
+      expect(onProgressBatch).not.toHaveBeenCalled();
+
+      await advanceThroughNextTimersAndPromises();
+      expect(onProgressBatch).toHaveBeenCalledTimes(1);
+      expect(onProgressBatch).toHaveBeenCalledWith([
+        expect.objectContaining({ url: foo, bytesWritten: 30 }),
+        expect.objectContaining({ url: boo, bytesWritten: 20 }),
+      ]);
+
+      progressOf(tasks[boo])({ bytesDownloaded: 40, bytesTotal: 100 });
+      await advanceThroughNextTimersAndPromises();
+      expect(onProgressBatch).toHaveBeenLastCalledWith([
+        expect.objectContaining({ url: boo, bytesWritten: 40 }),
+      ]);
+
+      // Nothing's sent once the queue's terminated
+      progressOf(tasks[boo])({ bytesDownloaded: 50, bytesTotal: 100 });
+      queue.terminate();
+      await advanceThroughNextTimersAndPromises();
+      expect(onProgressBatch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Queue progress", () => {
+    it("should add up progress across the queue", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const foo = "http://foo.com/a.mp3";
+      const boo = "http://boo.com/a.mp3";
+      const start = Date.now();
+      const progress = (url: string, bytesDownloaded: number) =>
+        (
+          (tasks[url].progress as jest.Mock).mock.calls[0][0] as ProgressHandler
+        )({ bytesDownloaded, bytesTotal: 1000 });
+
+      (stat as jest.Mock).mockResolvedValue({ size: 1000 });
+      (exists as jest.Mock).mockResolvedValue(true);
+      await queue.init({ domain: "mydomain" });
+      expect(queue.getAggregateProgress()).toEqual({
+        bytesDownloaded: 0,
+        bytesTotal: 0,
+        fraction: 1,
+        completeCount: 0,
+        remainingCount: 0,
+        bytesPerSecond: 0,
+        etaMs: undefined,
+      });
+
+      await queue.addUrl(foo);
+      await queue.addUrl(boo, { expectedBytes: 1000 });
+      expect(queue.getAggregateProgress()).toEqual(
+        expect.objectContaining({ bytesTotal: 1000, fraction: 0 })
+      );
+
+      progress(foo, 100);
+      jest.setSystemTime(start + 1000);
+      progress(foo, 300);
+      progress(boo, 200);
+      jest.setSystemTime(start + 2000);
+      expect(queue.getAggregateProgress()).toEqual({
+        bytesDownloaded: 500,
+        bytesTotal: 2000,
+        fraction: 0.25,
+        completeCount: 0,
+        remainingCount: 2,
+        // 400 bytes since the first report, 2 seconds ago
+        bytesPerSecond: 200,
+        etaMs: 7500,
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await tasks[foo]._done!({ bytesDownloaded: 1000, bytesTotal: 1000 });
+      expect(queue.getAggregateProgress()).toEqual(
+        expect.objectContaining({
+          bytesDownloaded: 1200,
+          completeCount: 1,
+          remainingCount: 1,
+        })
+      );
+
+      // Restarted downloads don't count as going backwards
+      progress(boo, 0);
+      jest.setSystemTime(start + 40000);
+      expect(queue.getAggregateProgress()).toEqual(
+        expect.objectContaining({ bytesPerSecond: 0, etaMs: undefined })
+      );
+    });
+
+    it("should count finished files from previous launches", async () => {
+      const queue = new DownloadQueue();
+
+      // Finished with tasks still around, so their files aren't stat()ed
+      task.state = "STOPPED";
+      (checkForExistingDownloads as jest.Mock).mockReturnValue([
+        task,
+        { ...task, id: "boo" },
+      ]);
+      (exists as jest.Mock).mockResolvedValue(true);
+      await kvfs.write("/mydomain/foo", {
+        id: "foo",
+        url: "http://foo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/foo`,
+        createTime: Date.now() - 1000,
+        finished: true,
+        totalBytes: 500,
+      });
+      await kvfs.write("/mydomain/boo", {
+        id: "boo",
+        url: "http://boo.com/a.mp3",
+        path: `${RNFS.DocumentDirectoryPath}/DownloadQueue/mydomain/boo`,
+        createTime: Date.now() - 1000,
+        finished: true,
+      });
+      await queue.init({ domain: "mydomain" });
+
+      expect(queue.getAggregateProgress()).toEqual(
+        expect.objectContaining({
+          bytesDownloaded: 500,
+          bytesTotal: 500,
+          fraction: 1,
+          completeCount: 2,
+        })
+      );
+    });
+
+    it("should report queue progress as it happens", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const onQueueProgress = jest.fn();
+
+      (stat as jest.Mock).mockResolvedValue({ size: 1000 });
+      (exists as jest.Mock).mockResolvedValue(true);
+      await queue.init({ domain: "mydomain", handlers: { onQueueProgress } });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      (
+        (tasks["http://foo.com/a.mp3"].progress as jest.Mock).mock
+          .calls[0][0] as ProgressHandler
+      )({ bytesDownloaded: 500, bytesTotal: 1000 });
+      expect(onQueueProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ fraction: 0.5 })
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await tasks["http://foo.com/a.mp3"]._done!({
+        bytesDownloaded: 1000,
+        bytesTotal: 1000,
+      });
+      expect(onQueueProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ fraction: 1, completeCount: 1 })
+      );
+      expect(onQueueProgress).toHaveBeenCalledTimes(2);
+    });
+
+    it("should say when the queue's drained", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const onQueueDrained = jest.fn();
+      const foo = "http://foo.com/a.mp3";
+      const boo = "http://boo.com/a.mp3";
+      const moo = "http://moo.com/a.mp3";
+
+      (exists as jest.Mock).mockResolvedValue(true);
+      await queue.init({
+        domain: "mydomain",
+        handlers: { onQueueDrained },
+        retryPolicy: { maxAttempts: 1 },
+      });
+      await queue.addUrls([foo, boo]);
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await tasks[foo]._done!({ bytesDownloaded: 100, bytesTotal: 100 });
+      expect(onQueueDrained).not.toHaveBeenCalled();
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      tasks[boo]._error!({ error: "Not Found", errorCode: 404 });
+      await advanceThroughNextTimersAndPromises();
+      expect(onQueueDrained).toHaveBeenCalledTimes(1);
+
+      // Removing finished or failed urls doesn't drain anything
+      await queue.removeUrls([foo, boo]);
+      expect(onQueueDrained).toHaveBeenCalledTimes(1);
+
+      await queue.addUrl(moo);
+      await queue.removeUrl(moo);
+      expect(onQueueDrained).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Listening for events", () => {
+    it("should call listeners with each event's details", async () => {
+      const queue = new DownloadQueue();
+      const listeners = {
+        begin: jest.fn(),
+        progress: jest.fn(),
+        done: jest.fn(),
+        queueChange: jest.fn(),
+      };
+
+      Object.assign(task, {
+        begin: jest.fn(handler => {
+          task._begin = handler;
+          return task;
+        }),
+        progress: jest.fn(handler => {
+          task._progress = handler;
+          return task;
+        }),
+        done: jest.fn(handler => {
+          task._done = handler;
+          return task;
+        }),
+      });
+      (exists as jest.Mock).mockResolvedValue(true);
+
+      queue.on("begin", listeners.begin);
+      queue.on("progress", listeners.progress);
+      queue.on("done", listeners.done);
+      queue.on("queueChange", listeners.queueChange);
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+      expect(listeners.queueChange).toHaveBeenCalledWith({});
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      task._begin!({ expectedBytes: 100, headers: {} });
+      expect(listeners.begin).toHaveBeenCalledWith({
+        url: "http://foo.com/a.mp3",
+        totalBytes: 100,
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      task._progress!({ bytesDownloaded: 25, bytesTotal: 100 });
+      expect(listeners.progress).toHaveBeenCalledWith({
+        url: "http://foo.com/a.mp3",
+        fractionWritten: 0.25,
+        bytesWritten: 25,
+        totalBytes: 100,
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion, @typescript-eslint/await-thenable
+      await task._done!({ bytesDownloaded: 100, bytesTotal: 100 });
+      expect(listeners.done).toHaveBeenCalledWith({
+        url: "http://foo.com/a.mp3",
+        localPath: expect.stringContaining("/DownloadQueue/mydomain/"),
+      });
+    });
+
+    it("should stop calling listeners that are removed", async () => {
+      const queue = new DownloadQueue();
+      const removedByOff = jest.fn();
+      const removedByUnsubscribe = jest.fn();
+      const kept = jest.fn();
+
+      queue.on("queueChange", removedByOff);
+      const unsubscribe = queue.on("queueChange", removedByUnsubscribe);
+      queue.on("queueChange", kept);
+      await queue.init({ domain: "mydomain" });
+
+      queue.off("queueChange", removedByOff);
+      unsubscribe();
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      expect(removedByOff).not.toHaveBeenCalled();
+      expect(removedByUnsubscribe).not.toHaveBeenCalled();
+      expect(kept).toHaveBeenCalledTimes(1);
+    });
+
+    it("should let listeners remove themselves mid-event", async () => {
+      const queue = new DownloadQueue();
+      const second = jest.fn();
+      const first = jest.fn(() => queue.off("queueChange", second));
+
+      queue.on("queueChange", first);
+      queue.on("queueChange", second);
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      // Removal takes effect from the next event on
+      expect(second).toHaveBeenCalledTimes(1);
+      await queue.removeUrl("http://foo.com/a.mp3");
+      expect(first).toHaveBeenCalledTimes(2);
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    it("should carry on when listeners throw", async () => {
+      const queue = new DownloadQueue();
+      const tasks = mockDistinctTasks();
+      const onError = jest.fn();
+      const onDone = jest.fn();
+
+      queue.on("error", () => {
+        throw new Error("oops");
+      });
+      queue.on("willRemove", () => {
+        throw new Error("oops");
+      });
+      await queue.init({ domain: "mydomain", handlers: { onError, onDone } });
+      await queue.addUrl("http://foo.com/a.mp3");
+      tasks["http://foo.com/a.mp3"]._error?.({
+        error: "offline",
+        errorCode: -1,
+      });
+      await new Promise(jest.requireActual("timers").setImmediate);
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      // The failure still counts toward retrying
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toEqual(
+        expect.objectContaining({ retryCount: 1 })
+      );
+
+      await queue.removeUrl("http://foo.com/a.mp3");
+      expect(await queue.getStatus("http://foo.com/a.mp3")).toBeNull();
+    });
+
+    it("should wait for willRemove listeners before deleting", async () => {
+      const queue = new DownloadQueue();
+      let finishListening = () => undefined as void;
+      const listening = new Promise<void>(
+        resolve => (finishListening = resolve)
+      );
+
+      queue.on("willRemove", () => listening);
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+
+      const removal = queue.removeUrl("http://foo.com/a.mp3");
+      await new Promise(jest.requireActual("timers").setImmediate);
+      expect(unlink).not.toHaveBeenCalled();
+
+      finishListening();
+      await removal;
+      expect(unlink).toHaveBeenCalled();
+    });
+
+    it("should notify subscribers along with handlers", async () => {
+      const queue = new DownloadQueue();
+      const handlers: DownloadQueueHandlers = {
+        onQueueChange: jest.fn(),
+      };
+      const subscriber: DownloadQueueHandlers = {
+        onQueueChange: jest.fn(),
+        onWillRemove: jest.fn(() => Promise.resolve()),
+      };
+      const unsubscribe = queue.subscribe(subscriber);
+
+      await queue.init({ domain: "mydomain", handlers });
+      await queue.addUrl("http://foo.com/a.mp3");
+      expect(handlers.onQueueChange).toHaveBeenCalledTimes(1);
+      expect(subscriber.onQueueChange).toHaveBeenCalledTimes(1);
+
+      await queue.setPriority("http://foo.com/a.mp3", 2);
+      await queue.setPinned("http://foo.com/a.mp3", true);
+      await queue.removeUrl("http://foo.com/a.mp3");
+      expect(subscriber.onWillRemove).toHaveBeenCalledWith(
+        "http://foo.com/a.mp3"
+      );
+      expect(handlers.onQueueChange).toHaveBeenCalledTimes(4);
+      expect(subscriber.onQueueChange).toHaveBeenCalledTimes(4);
+
+      // Subscriptions outlive terminate(), unlike handlers
+      queue.terminate();
+      await queue.init({ domain: "mydomain" });
+      await queue.addUrl("http://foo.com/a.mp3");
+      expect(handlers.onQueueChange).toHaveBeenCalledTimes(4);
+      expect(subscriber.onQueueChange).toHaveBeenCalledTimes(5);
+
+      unsubscribe();
+      await queue.removeUrl("http://foo.com/a.mp3", 0);
+      await queue.addUrl("http://foo.com/a.mp3");
+      expect(subscriber.onQueueChange).toHaveBeenCalledTimes(5);
     });
   });
 
@@ -2249,7 +6490,8 @@ describe("DownloadQueue", () => {
       (download as jest.Mock).mockImplementation(
         (spec: { id: string; url: string; destination: string }) => {
           if (spec.url === "http://foo.com/a.mp3") {
-            fooPath = spec.destination;
+            // It's downloaded next to where it'll end up
+            fooPath = spec.destination.replace(/\.partial$/, "");
             return Object.assign(fooTask, {
               done: jest.fn((handler: DoneHandler) => {
                 fooTask._done = handler;
@@ -2315,7 +6557,8 @@ describe("DownloadQueue", () => {
       (download as jest.Mock).mockImplementation(
         (spec: { id: string; url: string; destination: string }) => {
           if (spec.url === "http://foo.com/a.mp3") {
-            fooPath = spec.destination;
+            // It's downloaded next to where it'll end up
+            fooPath = spec.destination.replace(/\.partial$/, "");
             return Object.assign(fooTask, {
               done: jest.fn((handler: DoneHandler) => {
                 fooTask._done = handler;
@@ -0,0 +1,62 @@
+import {
+  AsyncStorageStore,
+  DownloadQueueStore,
+  MemoryStore,
+} from "../src/stores";
+
+describe("Stores", () => {
+  describe.each([
+    ["AsyncStorageStore", () => new AsyncStorageStore()],
+    ["MemoryStore", () => new MemoryStore()],
+  ])("%s", (_name, createStore: () => DownloadQueueStore) => {
+    let store: DownloadQueueStore;
+
+    beforeEach(async () => {
+      store = createStore();
+      await store.removeMulti(
+        (await store.readAll("/")).map(entry => entry.key)
+      );
+    });
+
+    it("should read back what it wrote", async () => {
+      await store.write("/main/foo", { url: "http://foo.com/a.mp3" });
+      await store.writeMulti([
+        { key: "/main/boo", value: { url: "http://boo.com/a.mp3" } },
+        { key: "/other/foo", value: { url: "http://foo.com/b.mp3" } },
+      ]);
+
+      expect(await store.readAll("/main/")).toEqual(
+        expect.arrayContaining([
+          { key: "/main/foo", value: { url: "http://foo.com/a.mp3" } },
+          { key: "/main/boo", value: { url: "http://boo.com/a.mp3" } },
+        ])
+      );
+      expect(await store.readAll("/main/")).toHaveLength(2);
+    });
+
+    it("should forget what it removed", async () => {
+      await store.writeMulti([
+        { key: "/main/foo", value: { id: "foo" } },
+        { key: "/main/boo", value: { id: "boo" } },
+        { key: "/main/moo", value: { id: "moo" } },
+      ]);
+      await store.remove("/main/foo");
+      await store.removeMulti(["/main/boo", "/main/zoo"]);
+
+      expect(await store.readAll("/main/")).toEqual([
+        { key: "/main/moo", value: { id: "moo" } },
+      ]);
+    });
+
+    it("should only persist values as they were when written", async () => {
+      const value = { finished: false };
+
+      await store.write("/main/foo", value);
+      value.finished = true;
+
+      expect(await store.readAll("/main/")).toEqual([
+        { key: "/main/foo", value: { finished: false } },
+      ]);
+    });
+  });
+});